@@ -1,8 +1,8 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
-import * as fs from 'fs';
-import { WordBookInfo, PracticeMode } from './types';
-import { ShardedRecordManager } from './shardedRecordManager';
+import { ChapterRecord, PracticeMode } from './types';
+import { ShardedRecordManager, getWordKey } from './shardedRecordManager';
+import { getBookWordsPerChapter, getSettings } from './settings';
+import { getStoredWordBooks, loadWordBookData } from './wordbooks';
 
 export class AnalyticsProvider {
     private panel: vscode.WebviewPanel | undefined;
@@ -96,16 +96,12 @@ export class AnalyticsProvider {
 
     private async sendWordBooks() {
         try {
-            const wordBooksPath = path.join(this.context.extensionPath, 'data', 'config', 'wordbooks.json');
-            if (fs.existsSync(wordBooksPath)) {
-                const wordBooksContent = fs.readFileSync(wordBooksPath, 'utf-8');
-                const wordBooks: WordBookInfo[] = JSON.parse(wordBooksContent);
-                
-                this.panel?.webview.postMessage({
-                    command: 'updateWordBooks',
-                    data: wordBooks
-                });
-            }
+            const wordBooks = await getStoredWordBooks(this.context);
+            
+            this.panel?.webview.postMessage({
+                command: 'updateWordBooks',
+                data: wordBooks
+            });
         } catch (error) {
             console.error('Error loading word books:', error);
         }
@@ -114,20 +110,25 @@ export class AnalyticsProvider {
     private async loadWordBookData(wordBookId: string) {
         try {
             // 获取词典信息
-            const wordBooksPath = path.join(this.context.extensionPath, 'data', 'config', 'wordbooks.json');
-            const wordBooksContent = fs.readFileSync(wordBooksPath, 'utf-8');
-            const wordBooks: WordBookInfo[] = JSON.parse(wordBooksContent);
+            const wordBooks = await getStoredWordBooks(this.context);
             const wordBook = wordBooks.find(wb => wb.id === wordBookId);
             
             if (!wordBook) {
                 return;
             }
 
+            // 每章单词数变化后换算练习位置
+            await this.recordManager.ensureChapterLayout(wordBookId);
+
             // 使用当前练习模式加载词典记录
             const record = await this.recordManager.loadDictRecord(wordBookId, wordBook.name || '', wordBook.length || 0, this.currentPracticeMode);
             
+            // 按词书单词列表从单词记录中汇总章节记录
+            const words = await loadWordBookData(this.context, wordBookId);
+            const chapterRecords = await this.recordManager.loadChapterRecords(wordBookId, words, this.currentPracticeMode);
+            
             // 从章节记录中计算全局统计数据
-            const globalStats = await this.calculateGlobalStats(wordBookId, record.totalChapters, this.currentPracticeMode);
+            const globalStats = this.calculateGlobalStats(chapterRecords);
             
             // 计算整体统计数据
             const overallStats = {
@@ -140,30 +141,14 @@ export class AnalyticsProvider {
             };
 
             // 获取章节统计数据
-            const chapterStats = [];
-            for (let i = 1; i <= record.totalChapters; i++) {
-                try {
-                    const chapterRecord = await this.recordManager.loadChapterRecord(wordBookId, i, this.currentPracticeMode);
-                    const chapterStat = {
-                        chapter: i,
-                        totalWords: chapterRecord.totalWordsInChapter,
-                        practiceCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.practiceCount, 0),
-                        errorCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.errorCount, 0),
-                        correctRate: this.calculateChapterCorrectRate(Object.values(chapterRecord.wordRecords)),
-                        completionCount: chapterRecord.chapterCompletionCount
-                    };
-                    chapterStats.push(chapterStat);
-                } catch (error) {
-                    chapterStats.push({
-                        chapter: i,
-                        totalWords: 10,
-                        practiceCount: 0,
-                        errorCount: 0,
-                        correctRate: 0,
-                        completionCount: 0
-                    });
-                }
-            }
+            const chapterStats = chapterRecords.map(chapterRecord => ({
+                chapter: chapterRecord.chapterNumber,
+                totalWords: chapterRecord.totalWordsInChapter,
+                practiceCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.practiceCount, 0),
+                errorCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.errorCount, 0),
+                correctRate: this.calculateChapterCorrectRate(Object.values(chapterRecord.wordRecords)),
+                completionCount: chapterRecord.chapterCompletionCount
+            }));
 
             this.panel?.webview.postMessage({
                 command: 'updateAnalytics',
@@ -185,9 +170,7 @@ export class AnalyticsProvider {
             this.currentPracticeMode = practiceMode as PracticeMode;
             
             // 获取词典信息
-            const wordBooksPath = path.join(this.context.extensionPath, 'data', 'config', 'wordbooks.json');
-            const wordBooksContent = fs.readFileSync(wordBooksPath, 'utf-8');
-            const wordBooks: WordBookInfo[] = JSON.parse(wordBooksContent);
+            const wordBooks = await getStoredWordBooks(this.context);
             const wordBook = wordBooks.find(wb => wb.id === wordBookId);
             
             if (!wordBook) {
@@ -195,12 +178,19 @@ export class AnalyticsProvider {
                 return;
             }
 
+            // 每章单词数变化后换算练习位置
+            await this.recordManager.ensureChapterLayout(wordBookId);
+
             // 加载指定模式的词典记录
             const mode = practiceMode as PracticeMode;
             const record = await this.recordManager.loadDictRecord(wordBookId, wordBook.name || '', wordBook.length || 0, mode);
             
+            // 按词书单词列表从单词记录中汇总章节记录
+            const words = await loadWordBookData(this.context, wordBookId);
+            const chapterRecords = await this.recordManager.loadChapterRecords(wordBookId, words, mode);
+            
             // 从章节记录中计算全局统计数据
-            const globalStats = await this.calculateGlobalStats(wordBookId, record.totalChapters, mode);
+            const globalStats = this.calculateGlobalStats(chapterRecords);
             
             // 计算整体统计数据
             const overallStats = {
@@ -213,34 +203,15 @@ export class AnalyticsProvider {
             };
             
             // 获取章节统计数据
-            const chapterStats = [];
-            
-            for (let i = 1; i <= record.totalChapters; i++) {
-                try {
-                    const chapterRecord = await this.recordManager.loadChapterRecord(wordBookId, i, mode);
-                    const chapterStat = {
-                        chapter: i,
-                        mode: mode,
-                        totalWords: chapterRecord.totalWordsInChapter,
-                        practiceCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.practiceCount, 0),
-                        errorCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.errorCount, 0),
-                        correctRate: this.calculateChapterCorrectRate(Object.values(chapterRecord.wordRecords)),
-                        completionCount: chapterRecord.chapterCompletionCount
-                    };
-                    chapterStats.push(chapterStat);
-                } catch (error) {
-                    const defaultStat = {
-                        chapter: i,
-                        mode: mode,
-                        totalWords: 10,
-                        practiceCount: 0,
-                        errorCount: 0,
-                        correctRate: 0,
-                        completionCount: 0
-                    };
-                    chapterStats.push(defaultStat);
-                }
-            }
+            const chapterStats = chapterRecords.map(chapterRecord => ({
+                chapter: chapterRecord.chapterNumber,
+                mode: mode,
+                totalWords: chapterRecord.totalWordsInChapter,
+                practiceCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.practiceCount, 0),
+                errorCount: Object.values(chapterRecord.wordRecords).reduce((sum: number, word: any) => sum + word.errorCount, 0),
+                correctRate: this.calculateChapterCorrectRate(Object.values(chapterRecord.wordRecords)),
+                completionCount: chapterRecord.chapterCompletionCount
+            }));
             
             const responseData = {
                 overallStats,
@@ -262,9 +233,7 @@ export class AnalyticsProvider {
     private async loadChapterWords(wordBookId: string, chapter: number, practiceMode: PracticeMode = 'normal') {
         try {
             // 获取词典信息
-            const wordBooksPath = path.join(this.context.extensionPath, 'data', 'config', 'wordbooks.json');
-            const wordBooksContent = fs.readFileSync(wordBooksPath, 'utf-8');
-            const wordBooks: WordBookInfo[] = JSON.parse(wordBooksContent);
+            const wordBooks = await getStoredWordBooks(this.context);
             const wordBook = wordBooks.find(wb => wb.id === wordBookId);
             
             if (!wordBook) {
@@ -272,35 +241,23 @@ export class AnalyticsProvider {
             }
 
             // 加载完整的词典文件
-            const filename = wordBook.url || wordBook.filename;
-            if (!filename) {
-                console.error('词典文件名不存在');
-                return;
-            }
-
-            const dictPath = path.join(this.context.extensionPath, 'data', 'dicts', filename);
-            const dictContent = fs.readFileSync(dictPath, 'utf-8');
-            const allWords = JSON.parse(dictContent);
+            const allWords = await loadWordBookData(this.context, wordBookId);
 
             // 计算章节范围
-            const startIndex = (chapter - 1) * 10;
-            const endIndex = Math.min(startIndex + 10, allWords.length);
+            const wordsPerChapter = getBookWordsPerChapter(await getSettings(this.context), wordBookId);
+            const startIndex = (chapter - 1) * wordsPerChapter;
+            const endIndex = Math.min(startIndex + wordsPerChapter, allWords.length);
             const chapterWords = allWords.slice(startIndex, endIndex);
             
             // 获取该章节单词的统计数据
             const chapterWordStats: any[] = [];
+            const wordRecords = await this.recordManager.loadWordRecords(wordBookId, practiceMode);
             
             for (let i = 0; i < chapterWords.length; i++) {
                 const word = chapterWords[i];
                 
                 // 查找该单词的练习记录
-                let wordRecord = null;
-                try {
-                    const chapterRecord = await this.recordManager.loadChapterRecord(wordBookId, chapter, practiceMode);
-                    wordRecord = chapterRecord.wordRecords[word.name];
-                } catch (error) {
-                    // 章节记录不存在，跳过
-                }
+                let wordRecord = wordRecords[getWordKey(word.name)];
                 
                 // 如果没有练习记录，创建默认记录
                 if (!wordRecord) {
@@ -321,7 +278,11 @@ export class AnalyticsProvider {
                     errorCount: wordRecord.errorCount,
                     correctRate: wordRecord.correctRate,
                     lastPracticeTime: wordRecord.lastPracticeTime === '从未练习' ? '从未练习' : this.formatTime(wordRecord.lastPracticeTime),
-                    chapter: chapter
+                    chapter: chapter,
+                    // 平均用时、首键反应时间和打字速度（旧记录没有用时或速度数据时为0）
+                    avgDurationMs: wordRecord.timedCount ? Math.round((wordRecord.totalDurationMs || 0) / wordRecord.timedCount) : 0,
+                    avgFirstKeyMs: wordRecord.timedCount ? Math.round((wordRecord.totalFirstKeyMs || 0) / wordRecord.timedCount) : 0,
+                    cpm: wordRecord.cpmCount ? Math.round((wordRecord.cpmTotal || 0) / wordRecord.cpmCount) : 0
                 });
             }
 
@@ -361,27 +322,19 @@ export class AnalyticsProvider {
     }
 
     // 计算全局统计数据
-    private async calculateGlobalStats(dictId: string, totalChapters: number, practiceMode: PracticeMode = 'normal'): Promise<any> {
+    private calculateGlobalStats(chapterRecords: ChapterRecord[]): any {
         let totalPracticeCount = 0;
         let totalCorrectCount = 0;
         let totalErrorCount = 0;
         let totalCompletedWords = 0;
         
-        for (let chapter = 1; chapter <= totalChapters; chapter++) {
-            try {
-                const chapterRecord = await this.recordManager.loadChapterRecord(dictId, chapter, practiceMode);
-                
-                // 统计该章节的数据
-                const chapterWords = Object.values(chapterRecord.wordRecords);
-                totalPracticeCount += chapterWords.reduce((sum: number, word: any) => sum + word.practiceCount, 0);
-                totalCorrectCount += chapterWords.reduce((sum: number, word: any) => sum + word.correctCount, 0);
-                totalErrorCount += chapterWords.reduce((sum: number, word: any) => sum + word.errorCount, 0);
-                totalCompletedWords += chapterWords.filter((word: any) => word.practiceCount > 0).length;
-                
-            } catch (error) {
-                // 章节记录不存在，跳过
-                continue;
-            }
+        for (const chapterRecord of chapterRecords) {
+            // 统计该章节的数据
+            const chapterWords = Object.values(chapterRecord.wordRecords);
+            totalPracticeCount += chapterWords.reduce((sum: number, word: any) => sum + word.practiceCount, 0);
+            totalCorrectCount += chapterWords.reduce((sum: number, word: any) => sum + word.correctCount, 0);
+            totalErrorCount += chapterWords.reduce((sum: number, word: any) => sum + word.errorCount, 0);
+            totalCompletedWords += chapterWords.filter((word: any) => word.practiceCount > 0).length;
         }
         
         const overallCorrectRate = totalPracticeCount > 0 ? (totalCorrectCount / totalPracticeCount * 100) : 0;
@@ -755,6 +708,9 @@ export class AnalyticsProvider {
                     <select id="modeSelect" onchange="selectPracticeMode(this.value)">
                         <option value="normal">📝 正常模式</option>
                         <option value="dictation">✏️ 默写模式</option>
+                        <option value="mistakes">📕 错题本</option>
+                        <option value="quiz">🔘 选择题模式</option>
+                        <option value="reverse">🔁 英译中模式</option>
                     </select>
                 </div>
             </div>
@@ -853,6 +809,8 @@ export class AnalyticsProvider {
                                 <option value="practice-asc">练习次数 ↑</option>
                                 <option value="rate-desc">正确率 ↓</option>
                                 <option value="rate-asc">正确率 ↑</option>
+                                <option value="duration-desc">平均用时 ↓</option>
+                                <option value="firstkey-desc">首键反应 ↓</option>
                             </select>
                         </div>
                     </div>
@@ -865,6 +823,9 @@ export class AnalyticsProvider {
                                     <th>正确次数</th>
                                     <th>错误次数</th>
                                     <th>正确率</th>
+                                    <th>平均用时</th>
+                                    <th>首键反应</th>
+                                    <th>速度</th>
                                     <th>最后练习时间</th>
                                 </tr>
                             </thead>
@@ -992,7 +953,8 @@ export class AnalyticsProvider {
             document.getElementById('dictName').textContent = stats.dictName;
             document.getElementById('totalWords').textContent = stats.totalWords;
             document.getElementById('totalChapters').textContent = stats.totalChapters;
-            document.getElementById('practiceMode').textContent = stats.practiceMode === 'normal' ? '📝 正常模式' : '✏️ 默写模式';
+            const modeLabels = { normal: '📝 正常模式', dictation: '✏️ 默写模式', mistakes: '📕 错题本', quiz: '🔘 选择题模式', reverse: '🔁 英译中模式' };
+            document.getElementById('practiceMode').textContent = modeLabels[stats.practiceMode] || stats.practiceMode;
             
             // 保存当前练习模式
             currentPracticeMode = stats.practiceMode;
@@ -1022,7 +984,7 @@ export class AnalyticsProvider {
             
             // 清空单词表格，显示提示信息
             const tbody = document.getElementById('wordTableBody');
-            tbody.innerHTML = '<tr><td colspan="6" class="no-data">请选择章节查看单词数据</td></tr>';
+            tbody.innerHTML = '<tr><td colspan="9" class="no-data">请选择章节查看单词数据</td></tr>';
         }
 
         function updateChapterTable(chapterStats) {
@@ -1078,7 +1040,7 @@ export class AnalyticsProvider {
             
             if (wordStats.length === 0) {
                 const row = document.createElement('tr');
-                row.innerHTML = '<td colspan="6" class="no-data">暂无单词数据</td>';
+                row.innerHTML = '<td colspan="9" class="no-data">暂无单词数据</td>';
                 tbody.appendChild(row);
                 return;
             }
@@ -1094,12 +1056,20 @@ export class AnalyticsProvider {
                     '<td>' + (word.correctCount || 0) + '</td>' +
                     '<td>' + word.errorCount + '</td>' +
                     '<td class="correct-rate ' + rateClass + '">' + correctRate + '%</td>' +
+                    '<td>' + formatDuration(word.avgDurationMs) + '</td>' +
+                    '<td>' + formatDuration(word.avgFirstKeyMs) + '</td>' +
+                    '<td>' + (word.cpm > 0 ? word.cpm + ' 键/分' : '-') + '</td>' +
                     '<td>' + word.lastPracticeTime + '</td>';
                 
                 tbody.appendChild(row);
             });
         }
 
+        // 格式化用时（毫秒 -> 秒），没有数据时显示 -
+        function formatDuration(ms) {
+            return ms > 0 ? (ms / 1000).toFixed(1) + 's' : '-';
+        }
+
         function selectChapterFromTable(chapter) {
             // 记录当前选中的章节
             selectedChapter = chapter;
@@ -1163,6 +1133,12 @@ export class AnalyticsProvider {
                 case 'rate-asc':
                     sortedData.sort((a, b) => a.correctRate - b.correctRate);
                     break;
+                case 'duration-desc':
+                    sortedData.sort((a, b) => b.avgDurationMs - a.avgDurationMs);
+                    break;
+                case 'firstkey-desc':
+                    sortedData.sort((a, b) => b.avgFirstKeyMs - a.avgFirstKeyMs);
+                    break;
             }
             
             updateWordTable(sortedData);
@@ -1195,7 +1171,7 @@ export class AnalyticsProvider {
             
             // 清空单词表格，显示提示信息
             const tbody = document.getElementById('wordTableBody');
-            tbody.innerHTML = '<tr><td colspan="6" class="no-data">请选择章节查看单词数据</td></tr>';
+            tbody.innerHTML = '<tr><td colspan="9" class="no-data">请选择章节查看单词数据</td></tr>';
         }
         
         function refreshData() {
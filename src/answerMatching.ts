@@ -0,0 +1,102 @@
+import { WordData } from './types';
+
+// 拼写判定的规范化：统一 Unicode 形式和大小写、弯引号和各类连字符，可选忽略重音符号和标点
+
+// 判定选项
+export interface AnswerMatchOptions {
+    ignoreDiacritics: boolean;  // 忽略重音符号（café 可输入为 cafe）
+    ignorePunctuation: boolean; // 忽略标点（连字符、撇号等无需输入）
+}
+
+// 单词中需要输入的一个字符及其在显示的字母中的位置
+export interface AnswerUnit {
+    index: number;  // 在显示的字母中的位置
+    char: string;   // 规范化后的字符
+}
+
+// 一种拼写的判定依据：显示的字母（按 Unicode 字符拆分）和需要输入的字符
+export interface AnswerForm {
+    name: string;
+    chars: string[];
+    units: AnswerUnit[];
+}
+
+// 单词的判定依据：标准拼写及其变体（英式/美式拼写等，输入任意一种都算正确）
+export interface AnswerKey extends AnswerForm {
+    variants: AnswerForm[];
+}
+
+// foldChar 和 foldAnswer 的源码也嵌入练习界面中规范化输入（见 getFoldingScript），两处的判定规则完全相同
+// 因此这两个函数只能使用参数和彼此，不能引用模块中的其他变量
+
+// 规范化单个字符（可能得到空字符串或多个字符）
+export function foldChar(char: string, options: AnswerMatchOptions): string {
+    let folded = char.normalize('NFC').toLowerCase()
+        .replace(/[‘’ʼ′`´]/g, '\'')
+        .replace(/[‐‑‒–—−]/g, '-')
+        .replace(/\s/g, ' ');
+    if (options.ignoreDiacritics) {
+        folded = folded.normalize('NFD').replace(/\p{M}/gu, '');
+    }
+    if (options.ignorePunctuation) {
+        folded = folded.replace(/[\p{P}\p{S}]/gu, '');
+    }
+    return folded;
+}
+
+// 规范化输入的文本（连续空格合并为一个）
+export function foldAnswer(text: string, options: AnswerMatchOptions): string {
+    return Array.from(text.normalize('NFC'))
+        .map(char => foldChar(char, options))
+        .join('')
+        .replace(/ +/g, ' ')
+        .trim();
+}
+
+// 练习界面中使用的规范化函数源码（与扩展中的判定使用同一份代码）
+export function getFoldingScript(): string {
+    return `${foldChar.toString()}\n${foldAnswer.toString()}`;
+}
+
+// 生成一种拼写的判定依据
+function getAnswerForm(name: string, options: AnswerMatchOptions): AnswerForm {
+    const chars = Array.from(name.normalize('NFC'));
+    const units: AnswerUnit[] = [];
+    chars.forEach((char, index) => {
+        for (const folded of foldChar(char, options)) {
+            // 短语中的连续空格只需输入一个
+            if (folded === ' ' && (units.length === 0 || units[units.length - 1].char === ' ')) {
+                continue;
+            }
+            units.push({ index, char: folded });
+        }
+    });
+    while (units.length > 0 && units[units.length - 1].char === ' ') {
+        units.pop();
+    }
+    return { name, chars, units };
+}
+
+// 需要输入的字符（规范化后）
+export function getFormTarget(form: AnswerForm): string {
+    return form.units.map(unit => unit.char).join('');
+}
+
+// 生成单词的判定依据（规范化后与标准拼写相同的变体不重复列出）
+export function getAnswerKey(word: WordData, options: AnswerMatchOptions): AnswerKey {
+    const canonical = getAnswerForm(word.name, options);
+    const targets = new Set([getFormTarget(canonical)]);
+    const variants: AnswerForm[] = [];
+    for (const variant of word.variants || []) {
+        if (typeof variant !== 'string' || !variant.trim()) {
+            continue;
+        }
+        const form = getAnswerForm(variant.trim(), options);
+        const target = getFormTarget(form);
+        if (target && !targets.has(target)) {
+            targets.add(target);
+            variants.push(form);
+        }
+    }
+    return { ...canonical, variants };
+}
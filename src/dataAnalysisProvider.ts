@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import { DayRecordManager } from './dayRecordManager';
 import { DayAnalysisManager } from './dayAnalysisManager';
+import { PRACTICE_MODES, PRACTICE_MODE_LABELS } from './types';
+
+// 速度趋势显示的天数
+const SPEED_TREND_DAYS = 30;
 
 export class DataAnalysisProvider {
     private panel: vscode.WebviewPanel | undefined;
@@ -51,6 +55,11 @@ export class DataAnalysisProvider {
         this.sendDateList();
     }
 
+    // 刷新日期列表（面板已打开时）
+    public async refresh() {
+        await this.sendDateList();
+    }
+
     private async sendDateList() {
         if (!this.panel) return;
 
@@ -68,32 +77,62 @@ export class DataAnalysisProvider {
                 dates: dates
             });
 
+            await this.sendSpeedTrend(dates);
+
         } catch (error) {
             console.error('发送日期列表失败:', error);
         }
     }
 
+    // 发送每日速度趋势：按日期和模式汇总作答用时、首键反应时间和打字速度（旧记录没有用时数据，不计入）
+    private async sendSpeedTrend(dates: string[]) {
+        if (!this.panel) return;
+
+        try {
+            const trend: any[] = [];
+            const recentDates = [...dates].sort((a, b) => a.localeCompare(b)).slice(-SPEED_TREND_DAYS);
+            for (const date of recentDates) {
+                const modes: any = {};
+                for (const mode of PRACTICE_MODES) {
+                    const record = await this.dayRecordManager.getDayRecord(date, mode);
+                    const timedWords = (record ? record.words : []).filter(word => typeof word.durationMs === 'number');
+                    const typedWords = timedWords.filter(word => (word.cpm || 0) > 0);
+                    modes[mode] = {
+                        count: timedWords.length,
+                        totalDurationMs: timedWords.reduce((sum, word) => sum + (word.durationMs || 0), 0),
+                        totalFirstKeyMs: timedWords.reduce((sum, word) => sum + (word.firstKeyMs || 0), 0),
+                        cpmCount: typedWords.length,
+                        totalCpm: typedWords.reduce((sum, word) => sum + (word.cpm || 0), 0)
+                    };
+                }
+                trend.push({ date, modes });
+            }
+
+            this.panel.webview.postMessage({
+                type: 'speedTrend',
+                trend: trend
+            });
+        } catch (error) {
+            console.error('发送速度趋势失败:', error);
+        }
+    }
+
     private async sendDateData(date: string) {
         if (!this.panel) return;
 
         try {
             
             // 直接从每日记录获取数据，而不是从快照数据获取
-            const normalRecord = await this.dayRecordManager.getDayRecord(date, 'normal');
-            const dictationRecord = await this.dayRecordManager.getDayRecord(date, 'dictation');
-
-            // 构建数据结构
             const data: any = {
                 date: date,
-                modes: {
-                    normal: {
-                        words: normalRecord ? normalRecord.words : []
-                    },
-                    dictation: {
-                        words: dictationRecord ? dictationRecord.words : []
-                    }
-                }
+                modes: {}
             };
+            for (const mode of PRACTICE_MODES) {
+                const record = await this.dayRecordManager.getDayRecord(date, mode);
+                data.modes[mode] = {
+                    words: record ? record.words : []
+                };
+            }
 
             this.panel.webview.postMessage({
                 type: 'dateData',
@@ -216,6 +255,15 @@ export class DataAnalysisProvider {
                         align-items: center;
                     }
                     
+                    .trend-bar {
+                        display: inline-block;
+                        height: 8px;
+                        border-radius: 2px;
+                        background-color: var(--vscode-charts-blue);
+                        vertical-align: middle;
+                        margin-right: 6px;
+                    }
+                    
                     .words-table {
                         width: 100%;
                         border-collapse: collapse;
@@ -420,6 +468,9 @@ export class DataAnalysisProvider {
             <div class="mode-tabs">
                 <button class="mode-tab active" data-mode="normal">📝 正常模式</button>
                 <button class="mode-tab" data-mode="dictation">✏️ 默写模式</button>
+                <button class="mode-tab" data-mode="mistakes">📕 错题本</button>
+                <button class="mode-tab" data-mode="quiz">🔘 选择题模式</button>
+                <button class="mode-tab" data-mode="reverse">🔁 英译中模式</button>
                 <button class="mode-tab" data-mode="all">📈 全部数据</button>
             </div>
             
@@ -436,6 +487,19 @@ export class DataAnalysisProvider {
                 let currentData = null;
                 // 当前选择的日期
                 let selectedDate = '';
+                // 每日速度趋势
+                let speedTrend = [];
+                
+                // 模式显示名称
+                const modeLabels = ${JSON.stringify(PRACTICE_MODE_LABELS)};
+                
+                // 获取当前选项卡对应的模式列表（全部数据包含所有模式）
+                function getSelectedModes(data) {
+                    if (currentMode === 'all') {
+                        return Object.keys(data.modes);
+                    }
+                    return data.modes[currentMode] ? [currentMode] : [];
+                }
                 
                 // 页面加载时请求日期列表
                 window.addEventListener('load', () => {
@@ -487,6 +551,12 @@ export class DataAnalysisProvider {
                             currentData = message.data;
                             updateContent(message.data);
                             break;
+                        case 'speedTrend':
+                            speedTrend = message.trend || [];
+                            if (currentData) {
+                                updateContent(currentData);
+                            }
+                            break;
                     }
                 });
                 
@@ -511,22 +581,15 @@ export class DataAnalysisProvider {
                     }
 
                     // 根据当前模式过滤数据
-                    let normalWords = data.modes.normal.words || [];
-                    let dictationWords = data.modes.dictation.words || [];
                     let displayWords = [];
+                    getSelectedModes(data).forEach(mode => {
+                        displayWords = displayWords.concat(data.modes[mode].words || []);
+                    });
                     
-                    switch (currentMode) {
-                        case 'normal':
-                            displayWords = normalWords;
-                            break;
-                        case 'dictation':
-                            displayWords = dictationWords;
-                            break;
-                        case 'all':
-                        default:
-                            displayWords = [...normalWords, ...dictationWords];
-                            break;
-                    }
+                    // 各模式的练习单词数
+                    const modeDetail = Object.keys(data.modes)
+                        .map(mode => modeLabels[mode] + ': ' + (data.modes[mode].words || []).length)
+                        .join(' | ');
                     
                     // 构建统计信息
                     const statsHtml = 
@@ -534,13 +597,14 @@ export class DataAnalysisProvider {
                             '<div class="stat-card">' +
                                 '<div class="stat-title">今日练习单词数</div>' +
                                 '<div class="stat-value">' + displayWords.length + '</div>' +
-                                '<div class="stat-detail">正常模式: ' + normalWords.length + ' | 默写模式: ' + dictationWords.length + '</div>' +
+                                '<div class="stat-detail">' + modeDetail + '</div>' +
                             '</div>' +
                             '<div class="stat-card">' +
                                 '<div class="stat-title">词典数量</div>' +
                                 '<div class="stat-value">' + (displayWords.length > 0 ? new Set(displayWords.map(w => w.dictId)).size : 0) + '</div>' +
                                 '<div class="stat-detail">不同词典的练习记录</div>' +
                             '</div>' +
+                            generateSpeedCard(displayWords) +
                         '</div>';
                     
                     // 构建词典统计信息
@@ -549,7 +613,94 @@ export class DataAnalysisProvider {
                     // 生成表格形式的单词统计
                     const wordsTableHtml = generateWordsTable(displayWords, data);
                     
-                    content.innerHTML = statsHtml + dictSummaryHtml + wordsTableHtml;
+                    content.innerHTML = statsHtml + generateSpeedTrend() + dictSummaryHtml + wordsTableHtml;
+                }
+                
+                // 格式化用时（毫秒 -> 秒）
+                function formatDuration(ms) {
+                    return (ms / 1000).toFixed(1) + 's';
+                }
+                
+                // 生成当天平均用时卡片（只统计记录了用时的作答）
+                function generateSpeedCard(words) {
+                    const timedWords = words.filter(w => typeof w.durationMs === 'number');
+                    if (timedWords.length === 0) {
+                        return '';
+                    }
+                    const avgDuration = timedWords.reduce((sum, w) => sum + w.durationMs, 0) / timedWords.length;
+                    const avgFirstKey = timedWords.reduce((sum, w) => sum + (w.firstKeyMs || 0), 0) / timedWords.length;
+                    const typedWords = timedWords.filter(w => (w.cpm || 0) > 0);
+                    const avgCpm = typedWords.length > 0 ? typedWords.reduce((sum, w) => sum + w.cpm, 0) / typedWords.length : 0;
+                    return '<div class="stat-card">' +
+                            '<div class="stat-title">平均用时</div>' +
+                            '<div class="stat-value">' + formatDuration(avgDuration) + '</div>' +
+                            '<div class="stat-detail">首键反应 ' + formatDuration(avgFirstKey) +
+                                (avgCpm > 0 ? ' | 速度 ' + Math.round(avgCpm) + ' 键/分' : '') + '</div>' +
+                        '</div>';
+                }
+                
+                // 生成每日速度趋势（按当前模式汇总，犹豫时间长的日子说明单词掌握不牢）
+                function generateSpeedTrend() {
+                    const rows = speedTrend.map(entry => {
+                        const stats = { count: 0, totalDurationMs: 0, totalFirstKeyMs: 0, cpmCount: 0, totalCpm: 0 };
+                        getSelectedModes(entry).forEach(mode => {
+                            const modeStats = entry.modes[mode];
+                            stats.count += modeStats.count;
+                            stats.totalDurationMs += modeStats.totalDurationMs;
+                            stats.totalFirstKeyMs += modeStats.totalFirstKeyMs;
+                            stats.cpmCount += modeStats.cpmCount;
+                            stats.totalCpm += modeStats.totalCpm;
+                        });
+                        return {
+                            date: entry.date,
+                            count: stats.count,
+                            avgDuration: stats.count > 0 ? stats.totalDurationMs / stats.count : 0,
+                            avgFirstKey: stats.count > 0 ? stats.totalFirstKeyMs / stats.count : 0,
+                            avgCpm: stats.cpmCount > 0 ? stats.totalCpm / stats.cpmCount : 0
+                        };
+                    }).filter(row => row.count > 0);
+                    
+                    if (rows.length === 0) {
+                        return '';
+                    }
+                    
+                    const maxDuration = Math.max(...rows.map(row => row.avgDuration));
+                    let trendHtml = 
+                        '<div class="words-container">' +
+                            '<div class="words-header">' +
+                                '<span>速度趋势</span>' +
+                                '<span>最近 ' + rows.length + ' 天</span>' +
+                            '</div>' +
+                            '<table class="words-table">' +
+                                '<thead>' +
+                                    '<tr>' +
+                                        '<th>日期</th>' +
+                                        '<th>作答数</th>' +
+                                        '<th>平均用时</th>' +
+                                        '<th>首键反应</th>' +
+                                        '<th>速度</th>' +
+                                    '</tr>' +
+                                '</thead>' +
+                                '<tbody>';
+                    
+                    rows.reverse().forEach(row => {
+                        const barWidth = maxDuration > 0 ? Math.max(2, Math.round(row.avgDuration / maxDuration * 120)) : 0;
+                        trendHtml += 
+                            '<tr>' +
+                                '<td>' + row.date + (row.date === selectedDate ? ' ◀' : '') + '</td>' +
+                                '<td>' + row.count + '</td>' +
+                                '<td><span class="trend-bar" style="width: ' + barWidth + 'px;"></span>' + formatDuration(row.avgDuration) + '</td>' +
+                                '<td>' + formatDuration(row.avgFirstKey) + '</td>' +
+                                '<td>' + (row.avgCpm > 0 ? Math.round(row.avgCpm) + ' 键/分' : '-') + '</td>' +
+                            '</tr>';
+                    });
+                    
+                    trendHtml += 
+                                '</tbody>' +
+                            '</table>' +
+                        '</div>';
+                    
+                    return trendHtml;
                 }
                 
                 // 生成词典统计摘要
@@ -638,32 +789,11 @@ export class DataAnalysisProvider {
                     const dictStats = {};
                     
                     // 根据当前模式处理数据
-                    switch (currentMode) {
-                        case 'normal':
-                            // 处理正常模式数据
-                            if (allData.modes.normal.words) {
-                                processDictsForStats(allData.modes.normal.words, dictStats);
-                            }
-                            break;
-                        case 'dictation':
-                            // 处理默写模式数据
-                            if (allData.modes.dictation.words) {
-                                processDictsForStats(allData.modes.dictation.words, dictStats);
-                            }
-                            break;
-                        case 'all':
-                        default:
-                            // 处理正常模式数据
-                            if (allData.modes.normal.words) {
-                                processDictsForStats(allData.modes.normal.words, dictStats);
-                            }
-                            
-                            // 处理默写模式数据
-                            if (allData.modes.dictation.words) {
-                                processDictsForStats(allData.modes.dictation.words, dictStats);
-                            }
-                            break;
-                    }
+                    getSelectedModes(allData).forEach(mode => {
+                        if (allData.modes[mode].words) {
+                            processDictsForStats(allData.modes[mode].words, dictStats);
+                        }
+                    });
                     
                     // 计算每个词典的正确率和完成次数
                     Object.keys(dictStats).forEach(dictId => {
@@ -749,7 +879,7 @@ export class DataAnalysisProvider {
                         wordStats[wordKey].practiceCount++;
                         if (word.isCorrect) {
                             wordStats[wordKey].correctCount++;
-                        } else {
+                        } else if (!isHintedOnly(word)) {
                             wordStats[wordKey].errorCount++;
                         }
                         
@@ -757,7 +887,7 @@ export class DataAnalysisProvider {
                         dictStats[dictKey].chapters[chapterKey].practiceCount++;
                         if (word.isCorrect) {
                             dictStats[dictKey].chapters[chapterKey].correctCount++;
-                        } else {
+                        } else if (!isHintedOnly(word)) {
                             dictStats[dictKey].chapters[chapterKey].errorCount++;
                         }
                         
@@ -896,30 +1026,11 @@ export class DataAnalysisProvider {
                     const wordStats = {};
                     
                     // 根据当前模式处理数据
-                    switch (currentMode) {
-                        case 'normal':
-                            if (allData.modes.normal.words) {
-                                processWordsForStats(allData.modes.normal.words, wordStats);
-                            }
-                            break;
-                        case 'dictation':
-                            if (allData.modes.dictation.words) {
-                                processWordsForStats(allData.modes.dictation.words, wordStats);
-                            }
-                            break;
-                        case 'all':
-                        default:
-                            // 处理正常模式数据
-                            if (allData.modes.normal.words) {
-                                processWordsForStats(allData.modes.normal.words, wordStats);
-                            }
-                            
-                            // 处理默写模式数据
-                            if (allData.modes.dictation.words) {
-                                processWordsForStats(allData.modes.dictation.words, wordStats);
-                            }
-                            break;
-                    }
+                    getSelectedModes(allData).forEach(mode => {
+                        if (allData.modes[mode].words) {
+                            processWordsForStats(allData.modes[mode].words, wordStats);
+                        }
+                    });
                     
                     // 计算每个单词的正确率
                     Object.keys(wordStats).forEach(word => {
@@ -932,6 +1043,11 @@ export class DataAnalysisProvider {
                     return wordStats;
                 }
                 
+                // 未出错但使用了提示的作答不计为正确，也不计为错误
+                function isHintedOnly(word) {
+                    return word.firstTryClean === true && !!word.hints && word.hints.length > 0;
+                }
+                
                 // 处理单词数据以生成统计信息
                 function processWordsForStats(words, wordStats) {
                     words.forEach(word => {
@@ -947,7 +1063,7 @@ export class DataAnalysisProvider {
                         wordStats[word.word].practiceCount++;
                         if (word.isCorrect) {
                             wordStats[word.word].correctCount++;
-                        } else {
+                        } else if (!isHintedOnly(word)) {
                             wordStats[word.word].errorCount++;
                         }
                     });
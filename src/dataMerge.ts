@@ -0,0 +1,475 @@
+import { BookSettings, ChapterRecord, DayRecord, DayWordRecord, DictRecord, PluginSettings, PracticeMode, PRACTICE_MODE_LABELS, SrsState, SyncDeviceSummary, WordRecord } from './types';
+import { DAY_RECORD_KEY_PATTERN } from './dayRecordManager';
+import { SCHEMA_VERSION_KEY } from './migrations';
+import { LEGACY_CHAPTER_KEY_PATTERN, MAIN_RECORD_KEY_PATTERN, WORD_BUCKET_KEY_PATTERN, WordRecordMap, getWordKey } from './shardedRecordManager';
+
+// 合并导入：将导出的数据合并到本机数据中，而不是覆盖本机数据
+
+// 导出文件或本机中的数据（globalState 键名 -> 值）
+export type StoredData = { [key: string]: any };
+
+// 变化的类别
+export type MergeCategory = 'dayRecords' | 'analysis' | 'words' | 'positions' | 'srs' | 'settings' | 'other';
+
+// 变化类别的显示名称
+export const MERGE_CATEGORY_LABELS: { [category in MergeCategory]: string } = {
+    dayRecords: '每日记录',
+    analysis: '分析报告',
+    words: '单词记录',
+    positions: '练习位置',
+    srs: '复习调度',
+    settings: '设置',
+    other: '其他数据'
+};
+
+// 合并后一个键的变化：新增、合并、替换或删除（删除时 value 为 undefined）
+export interface MergeChange {
+    key: string;
+    category: MergeCategory;
+    action: 'add' | 'merge' | 'replace' | 'remove';
+    description: string;
+    value: unknown;
+}
+
+// 合并导入的计划（预览后再写入）
+export interface MergePlan {
+    changes: MergeChange[];
+    unchangedCount: number; // 与本机相同或已包含在本机中的键数量
+    keptLocalCount: number; // 无法合并、保留本机数据的键数量
+}
+
+// 导出文件中导出设备的ID（合并导入时区分单词计数来自哪台设备，不保存到 globalState）
+export const EXPORT_DEVICE_KEY = 'enpractice.export.deviceId';
+
+// 已合并导入的其他设备计数（随导出文件导出，再次导入同一设备的数据时只累加新增的作答）
+export const IMPORT_MERGED_KEY = 'enpractice.import.merged';
+
+// 单词记录中累加的计数（前四项与同步计数 SyncWordCounts 的顺序相同）
+export const WORD_COUNTER_FIELDS = [
+    'practiceCount', 'correctCount', 'errorCount', 'hintedCount',
+    'mistakeCount', 'keystrokeCount', 'totalDurationMs', 'timedCount', 'totalFirstKeyMs', 'cpmTotal', 'cpmCount', 'hintCount'
+] as const;
+
+// 已合并导入的计数：设备ID -> 练习模式 -> 记录存储ID -> 单词标识 -> 计数（按 WORD_COUNTER_FIELDS 的顺序）
+export type ImportedCounts = { [deviceId: string]: { [mode: string]: { [storeId: string]: { [wordKey: string]: number[] } } } };
+
+// 已通过同步合并的计数（syncManager 保存的格式）
+type SyncedCounts = { [deviceId: string]: SyncDeviceSummary['words'] };
+
+const SYNC_MERGED_KEY = 'enpractice.sync.merged';
+
+// 同步计数中的作答计数数量（SyncWordCounts 的最后一项为练习时间）
+const SYNC_COUNTER_LENGTH = 4;
+
+// 旧版本导出的文件没有导出设备的ID，作为同一个来源（重复导入同一个文件时不重复累加）
+const UNKNOWN_DEVICE_ID = 'unknown';
+
+const TOTAL_RECORDS_KEY = 'enpractice.dayRecords.totalRecords';
+const ANALYSIS_KEY_PATTERN = /^enpractice\.dayRecordsAnalyze\.(\d{4}-\d{2}-\d{2})_analysis$/;
+const SRS_KEY_PATTERN = /^enpractice\.srs\.(.+)\.(\w+)$/;
+const SETTINGS_KEY = 'enpractice.settings';
+
+// 记录本机同步和导入状态的数据（按设备区分的计数来源），合并导入和覆盖导入都不从导入文件中读取
+export const DEVICE_STATE_KEYS = [
+    EXPORT_DEVICE_KEY,
+    IMPORT_MERGED_KEY,
+    'enpractice.sync.summary',
+    SYNC_MERGED_KEY
+];
+
+// 只属于本机的数据，不导入（数据版本、同步状态、每日记录的整理标记，导入后按本机设置重新整理）
+const LOCAL_ONLY_KEYS = [
+    SCHEMA_VERSION_KEY,
+    ...DEVICE_STATE_KEYS,
+    'enpractice.dayRecords.dayBoundary',
+    'enpractice.dayRecords.attemptModel'
+];
+
+type TotalRecord = { date: string; analysisGenerated: boolean };
+
+function getModeLabel(mode: string | undefined): string {
+    return PRACTICE_MODE_LABELS[(mode || 'normal') as PracticeMode] || mode || '';
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 作答记录的标识：同一时间完成的同一单词视为同一次作答
+function getAttemptKey(word: DayWordRecord): string {
+    return `${word.practiceTime}|${word.dictId}|${word.word}`;
+}
+
+// 按练习时间合并每日记录中的作答（已有的作答不重复添加）
+function mergeDayRecord(local: DayRecord | undefined, incoming: DayRecord): { record: DayRecord; added: number } {
+    const words = [...(local ? local.words : [])];
+    const attemptKeys = new Set(words.map(getAttemptKey));
+    let added = 0;
+    for (const word of incoming.words || []) {
+        const attemptKey = getAttemptKey(word);
+        if (!attemptKeys.has(attemptKey)) {
+            attemptKeys.add(attemptKey);
+            words.push(word);
+            added++;
+        }
+    }
+    words.sort((a, b) => (a.practiceTime || '').localeCompare(b.practiceTime || ''));
+    return { record: { date: local ? local.date : incoming.date, words }, added };
+}
+
+// 单词记录中的计数（按 WORD_COUNTER_FIELDS 的顺序）
+function getWordCounters(record: WordRecord): number[] {
+    return WORD_COUNTER_FIELDS.map(field => Number(record[field]) || 0);
+}
+
+// 某台设备的单词计数中已合并到本机的部分（通过同步和导入合并的取较大值）
+export function getMergedWordCounts(synced: SyncedCounts, imported: ImportedCounts, deviceId: string, mode: string, storeId: string, wordKey: string): number[] {
+    const syncedCounts = (((synced[deviceId] || {})[mode] || {})[storeId] || {})[wordKey];
+    const importedCounts = (((imported[deviceId] || {})[mode] || {})[storeId] || {})[wordKey];
+    return WORD_COUNTER_FIELDS.map((_, index) => Math.max(
+        syncedCounts && index < SYNC_COUNTER_LENGTH ? syncedCounts[index] || 0 : 0,
+        importedCounts ? importedCounts[index] || 0 : 0
+    ));
+}
+
+// 合并单词计数所需的来源信息
+interface WordMergeSources {
+    localDeviceId: string;
+    exportDeviceId: string;
+    localSynced: SyncedCounts;
+    incomingSynced: SyncedCounts;
+    incomingImported: ImportedCounts;
+    imported: ImportedCounts;   // 本机已合并导入的计数（合并过程中更新）
+}
+
+// 导入的单词计数按来源设备拆分：导出设备合并过的其他设备计数，其余为导出设备自己的作答
+function splitByDevice(sources: WordMergeSources, counts: number[], mode: string, storeId: string, wordKey: string): { [deviceId: string]: number[] } {
+    const byDevice: { [deviceId: string]: number[] } = {};
+    const own = [...counts];
+    const deviceIds = new Set([...Object.keys(sources.incomingSynced), ...Object.keys(sources.incomingImported)]);
+    for (const deviceId of deviceIds) {
+        if (deviceId === sources.exportDeviceId) {
+            continue;
+        }
+        const merged = getMergedWordCounts(sources.incomingSynced, sources.incomingImported, deviceId, mode, storeId, wordKey);
+        if (merged.some(count => count > 0)) {
+            byDevice[deviceId] = merged;
+            merged.forEach((count, index) => own[index] -= count);
+        }
+    }
+    byDevice[sources.exportDeviceId] = own.map(count => Math.max(0, count));
+    return byDevice;
+}
+
+// 计算一个单词需要累加的计数：每台设备只累加本机还没有合并过的部分，本机自己的作答不再累加
+function getNewWordCounts(sources: WordMergeSources, record: WordRecord, mode: string, storeId: string, wordKey: string): number[] {
+    const delta = WORD_COUNTER_FIELDS.map(() => 0);
+    for (const [deviceId, counts] of Object.entries(splitByDevice(sources, getWordCounters(record), mode, storeId, wordKey))) {
+        if (deviceId === sources.localDeviceId) {
+            continue;
+        }
+        const merged = getMergedWordCounts(sources.localSynced, sources.imported, deviceId, mode, storeId, wordKey);
+        counts.forEach((count, index) => delta[index] += Math.max(0, count - merged[index]));
+
+        // 记录已合并的计数（只增不减）
+        const device = sources.imported[deviceId] = { ...sources.imported[deviceId] };
+        const modeCounts = device[mode] = { ...device[mode] };
+        const storeCounts = modeCounts[storeId] = { ...modeCounts[storeId] };
+        const previous = storeCounts[wordKey] || [];
+        storeCounts[wordKey] = counts.map((count, index) => Math.max(count, previous[index] || 0));
+    }
+    return delta;
+}
+
+// 在单词记录上累加计数
+function addWordCounters(record: WordRecord, delta: number[], lastPracticeTime: string): WordRecord {
+    const result: WordRecord = { ...record };
+    WORD_COUNTER_FIELDS.forEach((field, index) => {
+        result[field] = (Number(record[field]) || 0) + delta[index];
+    });
+    result.lastPracticeTime = (record.lastPracticeTime || '') > lastPracticeTime ? record.lastPracticeTime : lastPracticeTime;
+    result.correctRate = result.practiceCount > 0 ? (result.correctCount / result.practiceCount) * 100 : 0;
+    return result;
+}
+
+// 合并单词记录：按来源设备只累加本机还没有合并过的作答（重复导入同一份数据、导入本机以前导出的数据时不重复计数）
+function mergeWordRecordMap(
+    sources: WordMergeSources,
+    local: WordRecordMap,
+    incoming: WordRecordMap,
+    mode: string,
+    storeId: string,
+    getTrackingKey: (key: string, record: WordRecord) => string
+): { records: WordRecordMap; added: number; combined: number } {
+    const records: WordRecordMap = { ...local };
+    let added = 0;
+    let combined = 0;
+    for (const [key, record] of Object.entries(incoming || {})) {
+        const delta = getNewWordCounts(sources, record, mode, storeId, getTrackingKey(key, record));
+        if (!delta.some(count => count > 0)) {
+            continue;
+        }
+        if (records[key]) {
+            records[key] = addWordCounters(records[key], delta, record.lastPracticeTime || '');
+            combined++;
+        } else {
+            // 本机没有的单词只添加未合并过的计数
+            const base: WordRecord = { ...record };
+            WORD_COUNTER_FIELDS.forEach(field => {
+                base[field] = 0;
+            });
+            records[key] = addWordCounters(base, delta, record.lastPracticeTime || '');
+            added++;
+        }
+    }
+    return { records, added, combined };
+}
+
+function describeWordChanges(added: number, combined: number): string {
+    const parts: string[] = [];
+    if (added > 0) {
+        parts.push(`新增 ${added} 个单词`);
+    }
+    if (combined > 0) {
+        parts.push(`累加 ${combined} 个单词新增的作答`);
+    }
+    return parts.join('，');
+}
+
+function describePosition(record: DictRecord): string {
+    return `第 ${record.currentChapter} 章第 ${record.currentWordIndex + 1} 个单词`;
+}
+
+// 生成合并导入的计划：每日记录按练习时间合并，单词计数按来源设备累加新增的作答，练习位置和复习调度以较新的为准，总记录按日期合并
+export function planMergeImport(current: StoredData, incoming: StoredData, localDeviceId: string): MergePlan {
+    const changes: MergeChange[] = [];
+    let unchangedCount = 0;
+    let keptLocalCount = 0;
+    const changedDates = new Set<string>();
+    const wordSources: WordMergeSources = {
+        localDeviceId,
+        exportDeviceId: typeof incoming[EXPORT_DEVICE_KEY] === 'string' && incoming[EXPORT_DEVICE_KEY] ? incoming[EXPORT_DEVICE_KEY] : UNKNOWN_DEVICE_ID,
+        localSynced: current[SYNC_MERGED_KEY] || {},
+        incomingSynced: incoming[SYNC_MERGED_KEY] || {},
+        incomingImported: incoming[IMPORT_MERGED_KEY] || {},
+        imported: { ...(current[IMPORT_MERGED_KEY] || {}) }
+    };
+
+    const incomingKeys = Object.keys(incoming).filter(key => key.startsWith('enpractice.') && !LOCAL_ONLY_KEYS.includes(key));
+
+    // 每日记录（先处理，总记录和分析报告依赖内容有变化的日期）
+    for (const key of incomingKeys) {
+        const match = key.match(DAY_RECORD_KEY_PATTERN);
+        if (!match || !incoming[key] || !Array.isArray(incoming[key].words)) {
+            continue;
+        }
+        const { record, added } = mergeDayRecord(current[key], incoming[key]);
+        if (added === 0) {
+            unchangedCount++;
+            continue;
+        }
+        changedDates.add(match[1]);
+        changes.push({
+            key,
+            category: 'dayRecords',
+            action: current[key] ? 'merge' : 'add',
+            description: `${match[1]}（${getModeLabel(match[2])}）：新增 ${added} 次作答`,
+            value: record
+        });
+    }
+
+    for (const key of incomingKeys) {
+        const value = incoming[key];
+        const local = current[key];
+        // 每日记录和总记录单独处理
+        if (DAY_RECORD_KEY_PATTERN.test(key) || key === TOTAL_RECORDS_KEY) {
+            continue;
+        }
+
+        // 分析报告：内容有变化的日期删除旧报告，本机没有的直接添加
+        const analysisMatch = key.match(ANALYSIS_KEY_PATTERN);
+        if (analysisMatch) {
+            if (changedDates.has(analysisMatch[1])) {
+                continue;
+            }
+            if (local === undefined) {
+                changes.push({ key, category: 'analysis', action: 'add', description: `${analysisMatch[1]} 的分析报告`, value });
+            } else {
+                unchangedCount++;
+            }
+            continue;
+        }
+
+        // 单词记录分片：累加本机还没有合并过的作答
+        const bucketMatch = key.match(WORD_BUCKET_KEY_PATTERN);
+        if (bucketMatch) {
+            const { records, added, combined } = mergeWordRecordMap(wordSources, local || {}, value, bucketMatch[2], bucketMatch[1], wordKey => wordKey);
+            if (added + combined === 0) {
+                unchangedCount++;
+                continue;
+            }
+            changes.push({
+                key,
+                category: 'words',
+                action: local ? 'merge' : 'add',
+                description: `${bucketMatch[1]}（${getModeLabel(bucketMatch[2])}）：${describeWordChanges(added, combined)}`,
+                value: records
+            });
+            continue;
+        }
+
+        // 旧版章节记录：合并其中的单词记录（升级后会合并到单词记录分片中）
+        const chapterMatch = key.match(LEGACY_CHAPTER_KEY_PATTERN);
+        if (chapterMatch) {
+            const localChapter = local as ChapterRecord | undefined;
+            const { records, added, combined } = mergeWordRecordMap(
+                wordSources,
+                localChapter ? localChapter.wordRecords : {},
+                (value as ChapterRecord).wordRecords,
+                chapterMatch[2],
+                chapterMatch[1],
+                (word, record) => getWordKey(record.word || word)
+            );
+            if (added + combined === 0) {
+                unchangedCount++;
+                continue;
+            }
+            changes.push({
+                key,
+                category: 'words',
+                action: local ? 'merge' : 'add',
+                description: `${chapterMatch[1]}（${getModeLabel(chapterMatch[2])}）第 ${chapterMatch[3]} 章：${describeWordChanges(added, combined)}`,
+                value: { ...(localChapter || value), wordRecords: records }
+            });
+            continue;
+        }
+
+        // 练习位置：保留较晚练习的位置
+        const mainMatch = key.match(MAIN_RECORD_KEY_PATTERN);
+        if (mainMatch) {
+            const localRecord = local as DictRecord | undefined;
+            const incomingRecord = value as DictRecord;
+            if (localRecord && (localRecord.lastPracticeTime || '') >= (incomingRecord.lastPracticeTime || '')) {
+                unchangedCount++;
+                continue;
+            }
+            changes.push({
+                key,
+                category: 'positions',
+                action: localRecord ? 'replace' : 'add',
+                description: `${incomingRecord.dictName || mainMatch[1]}（${getModeLabel(mainMatch[2])}）：`
+                    + (localRecord ? `${describePosition(localRecord)} → ${describePosition(incomingRecord)}` : describePosition(incomingRecord)),
+                value: incomingRecord
+            });
+            continue;
+        }
+
+        // 复习调度：每个单词保留较晚复习的状态
+        const srsMatch = key.match(SRS_KEY_PATTERN);
+        if (srsMatch) {
+            const states: { [word: string]: SrsState } = { ...(local || {}) };
+            let updated = 0;
+            for (const [word, state] of Object.entries((value || {}) as { [word: string]: SrsState })) {
+                if (!states[word] || (states[word].lastReviewTime || '') < (state.lastReviewTime || '')) {
+                    states[word] = state;
+                    updated++;
+                }
+            }
+            if (updated === 0) {
+                unchangedCount++;
+                continue;
+            }
+            changes.push({
+                key,
+                category: 'srs',
+                action: local ? 'merge' : 'add',
+                description: `${srsMatch[1]}（${getModeLabel(srsMatch[2])}）：更新 ${updated} 个单词的复习安排`,
+                value: states
+            });
+            continue;
+        }
+
+        // 设置：只合并词书单独设置（较晚修改的生效），练习进度保留本机的
+        if (key === SETTINGS_KEY) {
+            const localSettings = (local || {}) as Partial<PluginSettings>;
+            const bookSettings: { [dictId: string]: BookSettings } = { ...localSettings.bookSettings };
+            let updated = 0;
+            for (const [dictId, book] of Object.entries(((value || {}) as Partial<PluginSettings>).bookSettings || {})) {
+                const localBook = bookSettings[dictId];
+                if (!localBook || (!!book.updatedAt && (localBook.updatedAt || '') < book.updatedAt)) {
+                    bookSettings[dictId] = book;
+                    updated++;
+                }
+            }
+            if (updated === 0) {
+                unchangedCount++;
+                continue;
+            }
+            changes.push({
+                key,
+                category: 'settings',
+                action: 'merge',
+                description: `词书单独设置：更新 ${updated} 本词书`,
+                value: { ...localSettings, bookSettings }
+            });
+            continue;
+        }
+
+        // 其他数据：本机没有时添加，已有时保留本机数据
+        if (local === undefined) {
+            changes.push({ key, category: 'other', action: 'add', description: key, value });
+        } else if (isSameValue(local, value)) {
+            unchangedCount++;
+        } else {
+            keptLocalCount++;
+        }
+    }
+
+    // 已合并导入的计数：再次导入同一设备的数据时只累加新增的作答
+    if (!isSameValue(wordSources.imported, current[IMPORT_MERGED_KEY] || {})) {
+        changes.push({
+            key: IMPORT_MERGED_KEY,
+            category: 'words',
+            action: current[IMPORT_MERGED_KEY] ? 'merge' : 'add',
+            description: '记录已合并的作答来源（再次导入时不重复累加）',
+            value: wordSources.imported
+        });
+    }
+
+    // 总记录：按日期合并，内容有变化的日期需要重新生成分析报告
+    if (incoming[TOTAL_RECORDS_KEY] !== undefined || changedDates.size > 0) {
+        const local = current[TOTAL_RECORDS_KEY];
+        const value = incoming[TOTAL_RECORDS_KEY];
+        const records = new Map<string, TotalRecord>();
+        for (const record of [...(Array.isArray(local) ? local : []), ...(Array.isArray(value) ? value : [])] as TotalRecord[]) {
+            const existing = records.get(record.date);
+            records.set(record.date, { date: record.date, analysisGenerated: existing ? existing.analysisGenerated : record.analysisGenerated });
+        }
+        for (const date of changedDates) {
+            records.set(date, { date, analysisGenerated: false });
+        }
+        const merged = Array.from(records.values()).sort((a, b) => a.date.localeCompare(b.date));
+        if (isSameValue(merged, local)) {
+            unchangedCount++;
+        } else {
+            const addedDates = merged.length - (Array.isArray(local) ? local.length : 0);
+            changes.push({
+                key: TOTAL_RECORDS_KEY,
+                category: 'dayRecords',
+                action: local ? 'merge' : 'add',
+                description: `总记录：新增 ${addedDates} 天，${changedDates.size} 天需要重新生成分析报告`,
+                value: merged
+            });
+        }
+    }
+
+    // 内容有变化的日期删除本机的旧分析报告
+    for (const date of changedDates) {
+        const analysisKey = `enpractice.dayRecordsAnalyze.${date}_analysis`;
+        if (current[analysisKey] !== undefined) {
+            changes.push({ key: analysisKey, category: 'analysis', action: 'remove', description: `${date} 的分析报告（重新生成）`, value: undefined });
+        }
+    }
+
+    return { changes, unchangedCount, keptLocalCount };
+}
@@ -1,9 +1,16 @@
 import * as vscode from 'vscode';
+import { getCurrentPracticeDate } from './settings';
+import { formatLocalDate } from './dateUtils';
+import { DayRecordManager } from './dayRecordManager';
+import { DEVICE_STATE_KEYS, EXPORT_DEVICE_KEY, MERGE_CATEGORY_LABELS, StoredData, planMergeImport } from './dataMerge';
+import { CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY, upgradeImportData } from './migrations';
+import { resetWordStoreMigrations } from './shardedRecordManager';
 
 export class DataViewerProvider {
     private panel: vscode.WebviewPanel | undefined;
     private context: vscode.ExtensionContext;
     private onDidResetData: (() => void) | undefined;
+    private pendingImport: StoredData | undefined; // 等待确认导入方式的数据
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
@@ -51,9 +58,26 @@ export class DataViewerProvider {
                         await this.exportData();
                         break;
                     case 'importData':
-                        await this.importData(message.data);
+                        // 先预览合并导入的变化，由用户选择合并或覆盖
+                        await this.previewImport(message.data);
+                        break;
+                    case 'confirmMergeImport':
+                        await this.mergeImportData();
+                        await this.sendStoredData();
+                        if (this.onDidResetData) {
+                            this.onDidResetData();
+                        }
+                        break;
+                    case 'confirmOverwriteImport':
+                        await this.importData();
                         // 导入后刷新数据
                         await this.sendStoredData();
+                        if (this.onDidResetData) {
+                            this.onDidResetData();
+                        }
+                        break;
+                    case 'cancelImport':
+                        this.pendingImport = undefined;
                         break;
                 }
             },
@@ -69,6 +93,13 @@ export class DataViewerProvider {
         this.sendStoredData();
     }
 
+    // 刷新存储数据（面板已打开时）
+    public async refresh() {
+        if (this.panel) {
+            await this.sendStoredData();
+        }
+    }
+
     private async sendStoredData() {
         try {
             // 获取所有存储的键
@@ -110,7 +141,7 @@ export class DataViewerProvider {
             }
             
             // 添加今天的记录到 totalRecords
-            const today = new Date().toISOString().split('T')[0];
+            const today = await getCurrentPracticeDate(this.context);
             const totalRecordKey = 'enpractice.dayRecords.totalRecords';
             const totalRecords = [{
                 date: today,
@@ -118,6 +149,9 @@ export class DataViewerProvider {
             }];
             
             await this.context.globalState.update(totalRecordKey, totalRecords);
+            // 重置后的数据已是当前的数据版本
+            await this.context.globalState.update(SCHEMA_VERSION_KEY, CURRENT_SCHEMA_VERSION);
+            resetWordStoreMigrations();
             
             // 显示成功消息
             vscode.window.showInformationMessage('所有练习数据已重置');
@@ -148,9 +182,12 @@ export class DataViewerProvider {
                 }
             }
             
+            // 记录导出设备，合并导入时按设备区分单词计数的来源
+            exportData[EXPORT_DEVICE_KEY] = vscode.env.machineId;
+            
             // 创建导出文件
             const exportContent = JSON.stringify(exportData, null, 2);
-            const fileName = `enpractice-export-${new Date().toISOString().split('T')[0]}.json`;
+            const fileName = `enpractice-export-${formatLocalDate(new Date())}.json`;
             
             // 保存文件
             const uri = await vscode.window.showSaveDialog({
@@ -169,12 +206,79 @@ export class DataViewerProvider {
         }
     }
 
-    // 导入数据
-    private async importData(importContent: string) {
+    // 读取本机的所有EnPractice数据
+    private getStoredData(): StoredData {
+        const storedData: StoredData = {};
+        for (const key of this.context.globalState.keys()) {
+            if (key.startsWith('enpractice.')) {
+                storedData[key] = this.context.globalState.get(key);
+            }
+        }
+        return storedData;
+    }
+
+    // 解析导入的文件（校验并升级旧版本导出的数据）并发送合并导入的预览
+    private async previewImport(importContent: string) {
         try {
-            // 解析导入的数据
-            const importData = JSON.parse(importContent);
+            const importData = await upgradeImportData(JSON.parse(importContent));
+            this.pendingImport = importData;
             
+            const plan = planMergeImport(this.getStoredData(), importData, vscode.env.machineId);
+            this.panel?.webview.postMessage({
+                command: 'importPreview',
+                data: {
+                    changes: plan.changes.map(change => ({
+                        key: change.key,
+                        category: MERGE_CATEGORY_LABELS[change.category],
+                        action: change.action,
+                        description: change.description
+                    })),
+                    unchangedCount: plan.unchangedCount,
+                    keptLocalCount: plan.keptLocalCount
+                }
+            });
+        } catch (error) {
+            this.pendingImport = undefined;
+            console.error('解析导入数据失败:', error);
+            vscode.window.showErrorMessage('导入数据失败: ' + error);
+        }
+    }
+
+    // 合并导入：按预览的方式合并到本机数据（按当前数据重新计算，预览后本机数据可能已变化）
+    private async mergeImportData() {
+        const importData = this.pendingImport;
+        this.pendingImport = undefined;
+        if (!importData) {
+            return;
+        }
+        
+        try {
+            const plan = planMergeImport(this.getStoredData(), importData, vscode.env.machineId);
+            for (const change of plan.changes) {
+                await this.context.globalState.update(change.key, change.value);
+            }
+            
+            // 按本机的换日时间重新整理导入的每日记录
+            await new DayRecordManager(this.context).normalizeImportedRecords();
+            // 导入的旧版章节记录在下次练习时合并到单词记录中
+            resetWordStoreMigrations();
+            
+            vscode.window.showInformationMessage(`数据合并完成，更新了 ${plan.changes.length} 项数据`);
+        } catch (error) {
+            console.error('合并导入数据失败:', error);
+            vscode.window.showErrorMessage('合并导入数据失败: ' + error);
+        }
+    }
+
+    // 覆盖导入：删除本机数据后写入导入的数据
+    private async importData() {
+        const importData = this.pendingImport;
+        this.pendingImport = undefined;
+        if (!importData) {
+            return;
+        }
+        
+        try {
             // 确认是否要导入数据
             const confirm = await vscode.window.showWarningMessage(
                 '导入数据将覆盖现有数据，是否继续？',
@@ -195,12 +299,13 @@ export class DataViewerProvider {
                 }
             }
             
-            // 导入新数据
+            // 导入新数据（导出设备的同步和导入状态不适用于本机）
             for (const [key, value] of Object.entries(importData)) {
-                if (key.startsWith('enpractice.')) {
+                if (key.startsWith('enpractice.') && !DEVICE_STATE_KEYS.includes(key)) {
                     await this.context.globalState.update(key, value);
                 }
             }
+            resetWordStoreMigrations();
             
             // 显示成功消息
             vscode.window.showInformationMessage('数据导入成功');
@@ -441,6 +546,51 @@ export class DataViewerProvider {
         .file-input {
             display: none;
         }
+        
+        .preview-dialog {
+            width: 600px;
+            max-width: 90vw;
+        }
+        
+        .preview-summary {
+            color: var(--vscode-descriptionForeground);
+            margin-bottom: 10px;
+        }
+        
+        .preview-list {
+            max-height: 50vh;
+            overflow-y: auto;
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            padding: 8px 12px;
+        }
+        
+        .preview-category {
+            font-weight: bold;
+            margin-top: 8px;
+        }
+        
+        .preview-category:first-child {
+            margin-top: 0;
+        }
+        
+        .preview-change {
+            font-family: monospace;
+            font-size: 12px;
+            padding: 2px 0;
+        }
+        
+        .preview-change.add {
+            color: var(--vscode-charts-green);
+        }
+        
+        .preview-change.remove {
+            color: var(--vscode-charts-red);
+        }
+        
+        .preview-change.merge, .preview-change.replace {
+            color: var(--vscode-charts-yellow);
+        }
     </style>
 </head>
 <body>
@@ -484,6 +634,9 @@ export class DataViewerProvider {
                 case 'updateData':
                     renderData(message.data);
                     break;
+                case 'importPreview':
+                    showImportPreview(message.data);
+                    break;
             }
         });
         
@@ -658,6 +811,77 @@ export class DataViewerProvider {
             if (dialog) dialog.remove();
         }
         
+        function escapeHtml(text) {
+            return String(text)
+                .replace(/&/g, '&amp;')
+                .replace(/</g, '&lt;')
+                .replace(/>/g, '&gt;')
+                .replace(/"/g, '&quot;');
+        }
+        
+        // 变化的标记：新增、合并、替换、删除
+        const CHANGE_MARKS = { add: '+', merge: '~', replace: '~', remove: '-' };
+        
+        // 显示导入预览：列出合并导入会带来的变化，由用户选择合并导入或覆盖导入
+        function showImportPreview(preview) {
+            hideConfirmationDialog();
+            
+            // 按类别分组
+            const groups = {};
+            preview.changes.forEach(change => {
+                (groups[change.category] = groups[change.category] || []).push(change);
+            });
+            
+            let listHtml = '';
+            for (const [category, changes] of Object.entries(groups)) {
+                listHtml += \`<div class="preview-category">\${escapeHtml(category)}（\${changes.length}）</div>\`;
+                changes.forEach(change => {
+                    listHtml += \`<div class="preview-change \${change.action}" title="\${escapeHtml(change.key)}">\${CHANGE_MARKS[change.action]} \${escapeHtml(change.description)}</div>\`;
+                });
+            }
+            if (!listHtml) {
+                listHtml = '<div class="no-data">导入的数据已全部包含在本机数据中</div>';
+            }
+            
+            const overlay = document.createElement('div');
+            overlay.className = 'dialog-overlay';
+            overlay.id = 'dialogOverlay';
+            
+            const dialog = document.createElement('div');
+            dialog.className = 'confirmation-dialog preview-dialog';
+            dialog.innerHTML = \`
+                <h3>导入预览</h3>
+                <div class="preview-summary">
+                    合并导入将更新 \${preview.changes.length} 项数据，\${preview.unchangedCount} 项与本机相同\${preview.keptLocalCount > 0 ? \`，\${preview.keptLocalCount} 项无法合并（保留本机数据）\` : ''}。
+                    每日记录按练习时间合并，单词计数按来源设备只累加新增的作答（重复导入不会重复计数），练习位置保留较晚练习的。覆盖导入会删除本机的所有数据。
+                </div>
+                <div class="preview-list">\${listHtml}</div>
+                <div class="dialog-buttons">
+                    <button class="dialog-btn cancel-btn" id="cancelImport">取消</button>
+                    <button class="dialog-btn confirm-btn" id="overwriteImport">覆盖导入</button>
+                    <button class="dialog-btn cancel-btn" id="mergeImport" \${preview.changes.length === 0 ? 'disabled' : ''}>合并导入</button>
+                </div>
+            \`;
+            
+            document.body.appendChild(overlay);
+            document.body.appendChild(dialog);
+            
+            const cancelImport = () => {
+                hideConfirmationDialog();
+                vscode.postMessage({ command: 'cancelImport' });
+            };
+            document.getElementById('cancelImport').addEventListener('click', cancelImport);
+            overlay.addEventListener('click', cancelImport);
+            document.getElementById('overwriteImport').addEventListener('click', () => {
+                hideConfirmationDialog();
+                vscode.postMessage({ command: 'confirmOverwriteImport' });
+            });
+            document.getElementById('mergeImport').addEventListener('click', () => {
+                hideConfirmationDialog();
+                vscode.postMessage({ command: 'confirmMergeImport' });
+            });
+        }
+        
         // 重置所有数据
         function resetAllData() {
             hideConfirmationDialog();
@@ -0,0 +1,30 @@
+// 默认换日时间（0 点，即按自然日划分）
+export const DEFAULT_DAY_ROLLOVER_HOUR = 0;
+
+// 格式化为本地日期字符串 (YYYY-MM-DD)
+export function formatLocalDate(date: Date): string {
+    const year = date.getFullYear();
+    const month = (date.getMonth() + 1).toString().padStart(2, '0');
+    const day = date.getDate().toString().padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+// 规范换日时间为 0-23 的整数
+export function normalizeRolloverHour(hour: number): number {
+    const value = Math.floor(Number(hour));
+    return value >= 0 && value <= 23 ? value : DEFAULT_DAY_ROLLOVER_HOUR;
+}
+
+// 获取练习日期：按本地时间计算，换日时间之前的练习计入前一天
+export function getPracticeDate(date: Date = new Date(), rolloverHour: number = DEFAULT_DAY_ROLLOVER_HOUR): string {
+    const shifted = new Date(date.getTime());
+    shifted.setHours(shifted.getHours() - normalizeRolloverHour(rolloverHour));
+    return formatLocalDate(shifted);
+}
+
+// 计算指定日期之后若干天的日期字符串（只做日历计算，与时区无关）
+export function addDays(date: string, days: number): string {
+    const result = new Date(`${date}T00:00:00.000Z`);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+}
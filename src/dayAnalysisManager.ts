@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
-import { DayRecord, PracticeMode } from './types';
-import { ShardedRecordManager } from './shardedRecordManager';
-import { getStoredWordBooks } from './wordbooks';
+import { DayRecord, PracticeMode, PRACTICE_MODES } from './types';
+import { ShardedRecordManager, getWordKey } from './shardedRecordManager';
+import { getStoredWordBooks, loadWordBookData } from './wordbooks';
 
 /**
  * 日常分析管理器
@@ -47,10 +47,7 @@ export class DayAnalysisManager {
             
             if (wordBook) {
                 // 获取词典的单词总数
-                const wordBookData = await vscode.workspace.fs.readFile(
-                    vscode.Uri.joinPath(this.context.extensionUri, 'data', 'dicts', `${dictId}.json`)
-                );
-                const words = JSON.parse(Buffer.from(wordBookData).toString('utf8'));
+                const words = await loadWordBookData(this.context, dictId);
                 return {
                     name: wordBook.name,
                     totalWords: words.length
@@ -66,16 +63,10 @@ export class DayAnalysisManager {
     // 生成指定日期的分析报告
     async generateAnalysis(date: string, dayRecordManager: any): Promise<void> {
         try {
-            // 读取两种模式的记录
-            const normalRecord = await this.readDayRecord(date, 'normal');
-            const dictationRecord = await this.readDayRecord(date, 'dictation');
-
-            // 构建分析数据
+            // 构建分析数据（每种模式的数据存放在 <mode>Mode 字段中）
             const analysisData: any = {
                 date: date,
                 generatedAt: new Date().toISOString(),
-                normalMode: null,
-                dictationMode: null,
                 summary: {
                     totalDicts: 0,
                     totalChapters: 0,
@@ -84,63 +75,54 @@ export class DayAnalysisManager {
                 }
             };
 
-            // 处理正常模式数据
-            if (normalRecord) {
-                analysisData.normalMode = await this.processRecordData(normalRecord, 'normal');
-            }
-
-            // 处理默写模式数据
-            if (dictationRecord) {
-                analysisData.dictationMode = await this.processRecordData(dictationRecord, 'dictation');
+            // 处理各模式数据
+            for (const mode of PRACTICE_MODES) {
+                const record = await this.readDayRecord(date, mode);
+                analysisData[this.getModeField(mode)] = record ? await this.processRecordData(record, mode) : null;
             }
 
             // 计算汇总数据
             const dictSummary: { [key: string]: any } = {};
             
-            // 收集所有词典
+            // 从处理后的数据中收集所有词典
             const allDicts: Set<string> = new Set();
-            
-            // 从处理后的数据中收集词典信息
-            if (analysisData.normalMode) {
-                Object.keys(analysisData.normalMode.dicts).forEach(dictId => allDicts.add(dictId));
-            }
-            if (analysisData.dictationMode) {
-                Object.keys(analysisData.dictationMode.dicts).forEach(dictId => allDicts.add(dictId));
+            for (const mode of PRACTICE_MODES) {
+                const modeData = analysisData[this.getModeField(mode)];
+                if (modeData) {
+                    Object.keys(modeData.dicts).forEach(dictId => allDicts.add(dictId));
+                }
             }
 
             // 为每个词典收集详细信息
             for (const dictId of Array.from(allDicts)) {
                 // 获取词典名称
                 let dictName = 'Unknown';
-                if (analysisData.normalMode && analysisData.normalMode.dicts[dictId]) {
-                    dictName = analysisData.normalMode.dicts[dictId].dictName;
-                } else if (analysisData.dictationMode && analysisData.dictationMode.dicts[dictId]) {
-                    dictName = analysisData.dictationMode.dicts[dictId].dictName;
+                for (const mode of PRACTICE_MODES) {
+                    const modeData = analysisData[this.getModeField(mode)];
+                    if (modeData && modeData.dicts[dictId]) {
+                        dictName = modeData.dicts[dictId].dictName;
+                        break;
+                    }
                 }
 
                 const dictDetails = await this.getDictDetails(dictId);
                 const dictInfo: any = {
                     dictId: dictId,
                     dictName: dictName,
-                    totalWordsInDict: dictDetails ? dictDetails.totalWords : 0,
-                    normalMode: { chapters: 0, words: 0 },
-                    dictationMode: { chapters: 0, words: 0 }
+                    totalWordsInDict: dictDetails ? dictDetails.totalWords : 0
                 };
 
-                // 统计正常模式数据
-                if (analysisData.normalMode && analysisData.normalMode.dicts[dictId]) {
-                    const normalDict = analysisData.normalMode.dicts[dictId];
-                    dictInfo.normalMode.chapters = Object.keys(normalDict.chapters).length;
-                    dictInfo.normalMode.words = Object.values(normalDict.chapters)
-                        .reduce((sum: number, chapter: any) => sum + chapter.wordCount, 0);
-                }
-
-                // 统计默写模式数据
-                if (analysisData.dictationMode && analysisData.dictationMode.dicts[dictId]) {
-                    const dictationDict = analysisData.dictationMode.dicts[dictId];
-                    dictInfo.dictationMode.chapters = Object.keys(dictationDict.chapters).length;
-                    dictInfo.dictationMode.words = Object.values(dictationDict.chapters)
-                        .reduce((sum: number, chapter: any) => sum + chapter.wordCount, 0);
+                // 统计各模式数据
+                for (const mode of PRACTICE_MODES) {
+                    const field = this.getModeField(mode);
+                    dictInfo[field] = { chapters: 0, words: 0 };
+                    const modeData = analysisData[field];
+                    if (modeData && modeData.dicts[dictId]) {
+                        const modeDict = modeData.dicts[dictId];
+                        dictInfo[field].chapters = Object.keys(modeDict.chapters).length;
+                        dictInfo[field].words = Object.values(modeDict.chapters)
+                            .reduce((sum: number, chapter: any) => sum + chapter.wordCount, 0);
+                    }
                 }
 
                 dictSummary[dictId] = dictInfo;
@@ -150,10 +132,10 @@ export class DayAnalysisManager {
             analysisData.summary.dicts = Object.values(dictSummary);
             analysisData.summary.totalDicts = analysisData.summary.dicts.length;
             analysisData.summary.totalChapters = analysisData.summary.dicts.reduce(
-                (sum: number, dict: any) => sum + dict.normalMode.chapters + dict.dictationMode.chapters, 0
+                (sum: number, dict: any) => sum + PRACTICE_MODES.reduce((modeSum, mode) => modeSum + dict[this.getModeField(mode)].chapters, 0), 0
             );
             analysisData.summary.totalWords = analysisData.summary.dicts.reduce(
-                (sum: number, dict: any) => sum + dict.normalMode.words + dict.dictationMode.words, 0
+                (sum: number, dict: any) => sum + PRACTICE_MODES.reduce((modeSum, mode) => modeSum + dict[this.getModeField(mode)].words, 0), 0
             );
 
             // 保存分析数据到 globalState
@@ -167,6 +149,11 @@ export class DayAnalysisManager {
         }
     }
 
+    // 获取分析数据中模式对应的字段名（如 normalMode、dictationMode）
+    private getModeField(practiceMode: PracticeMode): string {
+        return `${practiceMode}Mode`;
+    }
+
     // 处理记录数据，包含详细的练习统计数据
     private async processRecordData(record: DayRecord, practiceMode: PracticeMode): Promise<any> {
         const processed: any = {
@@ -212,15 +199,15 @@ export class DayAnalysisManager {
         for (const dictId in processed.dicts) {
             const dict = processed.dicts[dictId];
             
+            // 按单词获取详细练习数据（章节号仅用于分组显示，词书调整后仍能找到记录）
+            const wordRecords = await this.shardedRecordManager.loadWordRecords(dictId, practiceMode);
+            
             for (const chapterNum in dict.chapters) {
                 const chapter = dict.chapters[chapterNum];
                 
-                // 获取章节的详细练习数据
-                const chapterRecord = await this.shardedRecordManager.loadChapterRecord(dictId, parseInt(chapterNum), practiceMode);
-                
                 // 更新单词的详细统计数据
                 chapter.words = chapter.words.map((wordInfo: any) => {
-                    const wordRecord = chapterRecord.wordRecords[wordInfo.word];
+                    const wordRecord = wordRecords[getWordKey(wordInfo.word)];
                     if (wordRecord) {
                         return {
                             word: wordInfo.word,
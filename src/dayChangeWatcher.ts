@@ -0,0 +1,112 @@
+import * as vscode from 'vscode';
+import { PRACTICE_MODES, PRACTICE_MODE_LABELS } from './types';
+import { DayRecordManager } from './dayRecordManager';
+import { DayAnalysisManager } from './dayAnalysisManager';
+import { getCurrentPracticeDate } from './settings';
+
+// 检查日期变化的间隔（毫秒）
+const CHECK_INTERVAL = 60 * 1000;
+
+/**
+ * 日期变化监视器
+ * VS Code 长时间保持打开时，跨过换日时间后结束前一天的记录并生成分析报告，登记新的日期并刷新已打开的面板
+ */
+export class DayChangeWatcher implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private dayRecordManager: DayRecordManager;
+    private dayAnalysisManager: DayAnalysisManager;
+    private currentDate: string | undefined;
+    private timer: NodeJS.Timeout | undefined;
+    private windowStateListener: vscode.Disposable | undefined;
+    private checking = false;
+    private onDidChangeDay: ((previousDate: string, currentDate: string) => void) | undefined;
+
+    constructor(context: vscode.ExtensionContext, dayRecordManager: DayRecordManager, dayAnalysisManager: DayAnalysisManager) {
+        this.context = context;
+        this.dayRecordManager = dayRecordManager;
+        this.dayAnalysisManager = dayAnalysisManager;
+    }
+
+    // 设置日期变化后的回调函数（用于刷新已打开的面板）
+    public setOnDidChangeDayCallback(callback: (previousDate: string, currentDate: string) => void) {
+        this.onDidChangeDay = callback;
+    }
+
+    // 开始监视日期变化
+    public async start(): Promise<void> {
+        this.currentDate = await getCurrentPracticeDate(this.context);
+        this.timer = setInterval(() => {
+            this.checkDayChange();
+        }, CHECK_INTERVAL);
+        // 系统休眠后定时器可能延迟，窗口重新获得焦点时立即检查
+        this.windowStateListener = vscode.window.onDidChangeWindowState(state => {
+            if (state.focused) {
+                this.checkDayChange();
+            }
+        });
+    }
+
+    // 检查日期是否变化
+    public async checkDayChange(): Promise<void> {
+        if (this.checking || !this.currentDate) {
+            return;
+        }
+
+        this.checking = true;
+        try {
+            const today = await getCurrentPracticeDate(this.context);
+            const previousDate = this.currentDate;
+            if (today === previousDate) {
+                return;
+            }
+
+            this.currentDate = today;
+            // 修改换日时间可能使当前日期回到前一天，此时只更新日期，不结束当天记录
+            if (today < previousDate) {
+                return;
+            }
+
+            await this.finalizeDay(previousDate);
+
+            // 登记新的日期（为每种模式都创建）
+            for (const mode of PRACTICE_MODES) {
+                try {
+                    await this.dayRecordManager.createDayRecordFile(mode);
+                } catch (error) {
+                    console.error(`创建每日记录文件(${PRACTICE_MODE_LABELS[mode]})失败:`, error);
+                }
+            }
+
+            if (this.onDidChangeDay) {
+                this.onDidChangeDay(previousDate, today);
+            }
+        } catch (error) {
+            console.error('检查日期变化失败:', error);
+        } finally {
+            this.checking = false;
+        }
+    }
+
+    // 结束前一天的记录：生成该日期的分析报告（已生成的不重复生成）
+    private async finalizeDay(date: string): Promise<void> {
+        const totalRecords = await this.dayRecordManager.getTotalRecords();
+        const record = totalRecords.find(item => item.date === date);
+        if (record && record.analysisGenerated) {
+            return;
+        }
+
+        await this.dayRecordManager.updateTotalRecords(date);
+        await this.dayAnalysisManager.generateAnalysis(date, this.dayRecordManager);
+    }
+
+    public dispose() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        if (this.windowStateListener) {
+            this.windowStateListener.dispose();
+            this.windowStateListener = undefined;
+        }
+    }
+}
@@ -1,6 +1,12 @@
 import * as vscode from 'vscode';
-import { DayRecord, DayWordRecord, PracticeMode, WordData } from './types';
+import { DayRecord, DayWordRecord, PracticeMode, PRACTICE_MODES, WordAttempt } from './types';
 import { loadWordBookData } from './wordbooks';
+import { getCurrentPracticeDate, getSettings } from './settings';
+import { getPracticeDate } from './dateUtils';
+import { SrsManager } from './srsManager';
+
+// 每日记录键名格式：enpractice.dayRecords.<YYYY-MM-DD>[_<模式>]
+export const DAY_RECORD_KEY_PATTERN = /^enpractice\.dayRecords\.(\d{4}-\d{2}-\d{2})(?:_(\w+))?$/;
 
 /**
  * 每日记录管理器
@@ -13,10 +19,9 @@ export class DayRecordManager {
         this.context = context;
     }
 
-    // 获取当天日期字符串 (YYYY-MM-DD)
-    private getCurrentDate(): string {
-        const now = new Date();
-        return now.toISOString().split('T')[0];
+    // 获取当天日期字符串 (YYYY-MM-DD，本地时间，按换日时间划分)
+    private async getCurrentDate(): Promise<string> {
+        return await getCurrentPracticeDate(this.context);
     }
 
     // 获取每日记录的 globalState 键名（按模式区分）
@@ -30,9 +35,111 @@ export class DayRecordManager {
         return 'enpractice.dayRecords.totalRecords';
     }
 
+    // 获取每日记录当前划分方式的 globalState 键名（保存划分记录时使用的换日时间）
+    private getDayBoundaryKey(): string {
+        return 'enpractice.dayRecords.dayBoundary';
+    }
+
+    // 导入数据后重新整理每日记录：导入的记录可能使用其他换日时间，按本机的换日时间重新划分
+    async normalizeImportedRecords(): Promise<void> {
+        await this.context.globalState.update(this.getDayBoundaryKey(), undefined);
+        await this.migrateDayBoundary();
+        for (const mode of PRACTICE_MODES) {
+            await this.createDayRecordFile(mode);
+        }
+    }
+
+    // 按本地日期和换日时间重新划分每日记录
+    // 旧版本按 UTC 日期保存，换日时间修改后也需要重新划分；已按当前方式划分时不做处理
+    async migrateDayBoundary(): Promise<void> {
+        try {
+            const settings = await getSettings(this.context);
+            const rolloverHour = settings.dayRolloverHour;
+            const boundaryKey = this.getDayBoundaryKey();
+            const boundary = this.context.globalState.get<{ rolloverHour: number }>(boundaryKey);
+            if (boundary && boundary.rolloverHour === rolloverHour) {
+                return;
+            }
+
+            // 收集所有每日记录中的单词记录，按练习时间重新计算所属日期
+            const oldKeys: string[] = [];
+            const oldCounts: { [recordKey: string]: number } = {};
+            const buckets: { [recordKey: string]: DayRecord } = {};
+            for (const key of this.context.globalState.keys()) {
+                const match = key.match(DAY_RECORD_KEY_PATTERN);
+                if (!match) {
+                    continue;
+                }
+                const practiceMode = (match[2] || 'normal') as PracticeMode;
+                if (!PRACTICE_MODES.includes(practiceMode)) {
+                    continue;
+                }
+
+                const record = this.context.globalState.get<DayRecord>(key);
+                oldKeys.push(key);
+                oldCounts[key] = record ? record.words.length : 0;
+                if (oldCounts[key] === 0 && !buckets[key]) {
+                    // 保留空记录（如当天激活插件时创建的记录）
+                    buckets[key] = { date: match[1], words: [] };
+                }
+                for (const word of record ? record.words : []) {
+                    const practiceTime = new Date(word.practiceTime);
+                    const date = isNaN(practiceTime.getTime()) ? match[1] : getPracticeDate(practiceTime, rolloverHour);
+                    const recordKey = this.getDayRecordKey(date, practiceMode);
+                    if (!buckets[recordKey]) {
+                        buckets[recordKey] = { date, words: [] };
+                    }
+                    buckets[recordKey].words.push(word);
+                }
+            }
+
+            // 记录内容有变化的日期，这些日期的分析报告需要重新生成
+            const changedDates = new Set<string>();
+            for (const key of oldKeys) {
+                const bucket = buckets[key];
+                if (!bucket || bucket.words.length !== oldCounts[key]) {
+                    changedDates.add(key.match(DAY_RECORD_KEY_PATTERN)![1]);
+                }
+            }
+
+            for (const key of oldKeys) {
+                if (!buckets[key]) {
+                    await this.context.globalState.update(key, undefined);
+                }
+            }
+            for (const [recordKey, bucket] of Object.entries(buckets)) {
+                bucket.words.sort((a, b) => a.practiceTime.localeCompare(b.practiceTime));
+                if (bucket.words.length !== oldCounts[recordKey]) {
+                    changedDates.add(bucket.date);
+                }
+                await this.context.globalState.update(recordKey, bucket);
+            }
+
+            // 重建总记录：保留内容未变化日期的分析状态，删除内容变化日期的旧分析报告
+            const totalRecordKey = this.getTotalRecordKey();
+            const existingRecords = this.context.globalState.get<{ date: string; analysisGenerated: boolean }[]>(totalRecordKey) || [];
+            const dates = new Set(Object.values(buckets).map(bucket => bucket.date));
+            const totalRecords = Array.from(dates).sort().map(date => {
+                const existing = existingRecords.find(record => record.date === date);
+                return {
+                    date,
+                    analysisGenerated: !changedDates.has(date) && !!existing && existing.analysisGenerated
+                };
+            });
+            for (const date of changedDates) {
+                await this.context.globalState.update(`enpractice.dayRecordsAnalyze.${date}_analysis`, undefined);
+            }
+            await this.context.globalState.update(totalRecordKey, totalRecords);
+
+            await this.context.globalState.update(boundaryKey, { rolloverHour });
+        } catch (error) {
+            console.error('重新划分每日记录失败:', error);
+        }
+    }
+
     // 创建空的每日记录（如果不存在）
     async createDayRecordFile(practiceMode: PracticeMode = 'normal'): Promise<void> {
-        const currentDate = this.getCurrentDate();
+        const currentDate = await this.getCurrentDate();
         const recordKey = this.getDayRecordKey(currentDate, practiceMode);
         
         try {
@@ -86,27 +193,28 @@ export class DayRecordManager {
         }
     }
 
-    // 记录单词练习（每次练习都记录）
+    // 记录单词作答（每次作答记录一条）
     async recordWordPractice(
         dictId: string, 
         dictName: string, 
         chapterNumber: number, 
-        word: string, 
-        isCorrect: boolean,  // 添加练习结果参数
+        attempt: WordAttempt,
         practiceMode: PracticeMode = 'normal'
     ): Promise<void> {
+        const word = attempt.word;
         try {
-            const currentDate = this.getCurrentDate();
+            const currentDate = await this.getCurrentDate();
             const recordKey = this.getDayRecordKey(currentDate, practiceMode);
             
             // 读取当前记录
             let dayRecord = this.context.globalState.get<DayRecord>(recordKey);
             if (!dayRecord) {
-                // 如果记录不存在，创建新的记录
+                // 如果记录不存在，创建新的记录，并登记到总记录中
                 dayRecord = {
                     date: currentDate,
                     words: []
                 };
+                await this.updateTotalRecords(currentDate);
             }
             
             // 获取单词的详细信息
@@ -122,7 +230,18 @@ export class DayRecordManager {
                 dictName: dictName,
                 chapterNumber: chapterNumber,
                 practiceTime: new Date().toISOString(),
-                isCorrect: isCorrect  // 记录练习结果
+                isCorrect: attempt.firstTryClean && !(attempt.hints && attempt.hints.length > 0),  // 一次通过且未使用提示记为正确
+                keystrokes: attempt.keystrokes,
+                mistakes: attempt.mistakes,
+                firstTryClean: attempt.firstTryClean,
+                durationMs: attempt.durationMs,
+                firstKeyMs: attempt.firstKeyMs,
+                cpm: attempt.cpm,
+                letterErrors: attempt.letterErrors.length > 0 ? attempt.letterErrors : undefined,
+                score: attempt.score,
+                variant: attempt.variant,
+                hints: attempt.hints && attempt.hints.length > 0 ? attempt.hints : undefined,
+                quality: SrsManager.qualityFromAttempt(attempt)
             };
             
             // 添加到记录数组中
@@ -183,7 +302,7 @@ export class DayRecordManager {
 
     // 获取当前日期的记录
     async getCurrentDayRecord(practiceMode: PracticeMode = 'normal'): Promise<DayRecord | null> {
-        const currentDate = this.getCurrentDate();
+        const currentDate = await this.getCurrentDate();
         return await this.getDayRecord(currentDate, practiceMode);
     }
 
@@ -3,13 +3,38 @@ import { PracticeWebviewProvider } from './practiceProvider';
 import { showSettingsPanel } from './settingsProvider';
 import { AnalyticsProvider } from './analyticsProvider';
 import { DataAnalysisProvider } from './dataAnalysisProvider';
+import { LetterAnalyticsProvider } from './letterAnalyticsProvider';
 import { DayRecordManager } from './dayRecordManager';
 import { DayAnalysisManager } from './dayAnalysisManager';
 import { DataViewerProvider } from './dataViewerProvider';
+import { DayChangeWatcher } from './dayChangeWatcher';
+import { importWordBook } from './wordbookImporter';
+import { PRACTICE_MODES, PRACTICE_MODE_LABELS } from './types';
+import { CONFIG_SECTION, migrateSettingsToConfiguration } from './settings';
+import { SyncManager } from './syncManager';
+import { invalidateWordBookCache, watchUserWordBookDir } from './wordbooks';
+import { runMigrations, setStorageReady, whenStorageReady } from './migrations';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('EnPractice extension is now active!');
 
+    // 先执行存储数据的迁移并将旧版设置迁移到 VS Code 配置，完成前练习面板和命令不读写练习数据
+    const storageReady = runMigrations(context.globalState)
+        .then(async notices => {
+            notices.forEach(notice => vscode.window.showInformationMessage(notice));
+            await migrateSettingsToConfiguration(context);
+        })
+        .catch(error => {
+            console.error('迁移练习数据失败:', error);
+            vscode.window.showErrorMessage(`迁移练习数据失败，部分旧数据可能无法正确显示: ${error}`);
+        });
+    setStorageReady(storageReady);
+
+    // 用户词书目录中的文件变化后重新读取词书列表（目录设置在迁移设置后才确定）
+    storageReady.then(() => watchUserWordBookDir(context)).then(watcher => context.subscriptions.push(watcher)).catch(error => {
+        console.error('监听用户词书目录失败:', error);
+    });
+
     // 注册webview视图提供程序
     const provider = new PracticeWebviewProvider(context.extensionUri, context);
     context.subscriptions.push(
@@ -22,6 +47,9 @@ export function activate(context: vscode.ExtensionContext) {
     // 创建数据分析提供者实例
     const dataAnalysisProvider = new DataAnalysisProvider(context);
 
+    // 创建字母错误分析提供者实例
+    const letterAnalyticsProvider = new LetterAnalyticsProvider(context);
+
     // 创建每日记录管理器实例
     const dayRecordManager = new DayRecordManager(context);
     
@@ -39,42 +67,138 @@ export function activate(context: vscode.ExtensionContext) {
         });
     });
 
+    // 创建同步管理器，合并其他设备的练习数据后更新练习面板的数据（不重新生成页面）
+    const syncManager = new SyncManager(context);
+    syncManager.setOnDidMergeCallback(() => {
+        provider.refreshPracticeData().catch(error => {
+            console.error('刷新练习面板失败:', error);
+        });
+        dataViewerProvider.refresh().catch(error => {
+            console.error('刷新数据查看器失败:', error);
+        });
+    });
+
     // 注册设置命令
-    let openSettingsCommand = vscode.commands.registerCommand('enpractice.openSettings', () => {
+    // 各命令等待激活时的数据迁移完成后再读写练习数据
+    let openSettingsCommand = vscode.commands.registerCommand('enpractice.openSettings', async () => {
+        await whenStorageReady();
         showSettingsPanel(context, provider);
     });
 
     // 注册记录命令
-    let openAnalyticsCommand = vscode.commands.registerCommand('enpractice.openAnalytics', () => {
+    let openAnalyticsCommand = vscode.commands.registerCommand('enpractice.openAnalytics', async () => {
+        await whenStorageReady();
         analyticsProvider.show();
     });
     
     // 注册数据分析命令
-    const openDataAnalysisCommand = vscode.commands.registerCommand('enpractice.openDataAnalysis', () => {
+    const openDataAnalysisCommand = vscode.commands.registerCommand('enpractice.openDataAnalysis', async () => {
+        await whenStorageReady();
         dataAnalysisProvider.show();
     });
 
+    // 注册字母错误分析命令
+    const openLetterAnalyticsCommand = vscode.commands.registerCommand('enpractice.openLetterAnalytics', async () => {
+        await whenStorageReady();
+        letterAnalyticsProvider.show();
+    });
+
     // 注册数据查看器命令
-    const openDataViewerCommand = vscode.commands.registerCommand('enpractice.openDataViewer', () => {
+    const openDataViewerCommand = vscode.commands.registerCommand('enpractice.openDataViewer', async () => {
+        await whenStorageReady();
         dataViewerProvider.show();
     });
 
-    // 在插件激活时自动创建当天的记录文件（为两种模式都创建）
-    dayRecordManager.createDayRecordFile('normal').catch(error => {
-        console.error('创建每日记录文件(正常模式)失败:', error);
+    // 注册导入词书命令
+    const importWordBookCommand = vscode.commands.registerCommand('enpractice.importWordBook', async () => {
+        await whenStorageReady();
+        return importWordBook(context, provider);
     });
-    
-    dayRecordManager.createDayRecordFile('dictation').catch(error => {
-        console.error('创建每日记录文件(默写模式)失败:', error);
+
+    // 注册立即同步命令
+    const syncNowCommand = vscode.commands.registerCommand('enpractice.syncNow', async () => {
+        await whenStorageReady();
+        if (!vscode.workspace.getConfiguration(CONFIG_SECTION).get<boolean>('sync.enabled')) {
+            vscode.window.showInformationMessage('尚未开启练习数据同步，请在设置中开启');
+            return;
+        }
+        const merged = await syncManager.sync();
+        vscode.window.showInformationMessage(merged ? '已合并其他设备的练习数据' : '练习数据已同步');
+    });
+
+    // 创建日期变化监视器，VS Code 保持打开跨过换日时间后刷新已打开的面板
+    const dayChangeWatcher = new DayChangeWatcher(context, dayRecordManager, dayAnalysisManager);
+    dayChangeWatcher.setOnDidChangeDayCallback(() => {
+        dataAnalysisProvider.refresh().catch(error => {
+            console.error('刷新数据分析面板失败:', error);
+        });
+        dataViewerProvider.refresh().catch(error => {
+            console.error('刷新数据查看器失败:', error);
+        });
+        provider.refreshForNewDay().catch(error => {
+            console.error('刷新练习面板失败:', error);
+        });
+    });
+
+    // 数据迁移完成后按本地日期重新划分每日记录（如需要），然后自动创建当天的记录文件（为每种模式都创建），再开始监视日期变化
+    let dayRecordsReady = storageReady.then(async () => {
+        await dayRecordManager.migrateDayBoundary();
+        for (const mode of PRACTICE_MODES) {
+            await dayRecordManager.createDayRecordFile(mode).catch(error => {
+                console.error(`创建每日记录文件(${PRACTICE_MODE_LABELS[mode]})失败:`, error);
+            });
+        }
+        await dayChangeWatcher.start();
+        // 记录迁移完成后再开始同步
+        await syncManager.start();
+    }).catch(error => {
+        console.error('初始化每日记录失败:', error);
+        vscode.window.showErrorMessage(`初始化每日记录失败: ${error}`);
     });
     
     // 移除了插件激活时检查并生成缺失的分析报告的逻辑
 
+    // 监听 VS Code 配置变化（settings.json、工作区设置或设置面板的修改）
+    const configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration(`${CONFIG_SECTION}.userWordbookDir`)) {
+            // 词书列表来自新的目录
+            invalidateWordBookCache();
+            watchUserWordBookDir(context).then(watcher => context.subscriptions.push(watcher)).catch(error => {
+                console.error('监听用户词书目录失败:', error);
+            });
+        }
+        storageReady.then(() => provider.handleConfigurationChange(event)).catch(error => {
+            console.error('刷新练习面板失败:', error);
+        });
+        if (event.affectsConfiguration(`${CONFIG_SECTION}.dayRolloverHour`)) {
+            // 按新的换日时间重新划分已有的每日记录（排在激活时的迁移之后）
+            dayRecordsReady = dayRecordsReady.then(async () => {
+                await dayRecordManager.migrateDayBoundary();
+                for (const mode of PRACTICE_MODES) {
+                    await dayRecordManager.createDayRecordFile(mode);
+                }
+            }).catch(error => {
+                console.error('按新的换日时间划分每日记录失败:', error);
+            });
+        }
+        if (event.affectsConfiguration(`${CONFIG_SECTION}.sync.enabled`)) {
+            dayRecordsReady.then(() => syncManager.start()).catch(error => {
+                console.error('更新同步设置失败:', error);
+            });
+        }
+    });
+
     context.subscriptions.push(
         openSettingsCommand, 
         openAnalyticsCommand, 
         openDataAnalysisCommand,
-        openDataViewerCommand
+        openLetterAnalyticsCommand,
+        openDataViewerCommand,
+        importWordBookCommand,
+        syncNowCommand,
+        configurationListener,
+        dayChangeWatcher,
+        syncManager
     );
 }
 
@@ -0,0 +1,427 @@
+import * as vscode from 'vscode';
+import { DayRecordManager } from './dayRecordManager';
+import { PracticeMode, PRACTICE_MODE_LABELS } from './types';
+
+// 记录字母错误的模式（拼写类模式）
+const LETTER_ERROR_MODES: PracticeMode[] = ['normal', 'dictation', 'mistakes'];
+
+// 每组混淆字母对显示的单词数
+const TOP_WORDS_PER_PAIR = 5;
+
+// 错误在单词中的位置：开头、中间、结尾（按单词长度三等分，超出单词长度的多余输入计为结尾）
+export type ErrorPositionCategory = 'start' | 'middle' | 'end';
+
+export function getErrorPositionCategory(position: number, wordLength: number): ErrorPositionCategory {
+    if (wordLength <= 1 || position >= wordLength - 1) {
+        return position === 0 && wordLength > 1 ? 'start' : 'end';
+    }
+    const ratio = position / (wordLength - 1);
+    if (ratio < 1 / 3) {
+        return 'start';
+    }
+    return ratio > 2 / 3 ? 'end' : 'middle';
+}
+
+/**
+ * 字母错误分析面板
+ * 汇总每日记录中输错的字母，显示最常混淆的字母对、错误在单词中的位置分布以及导致混淆的单词
+ */
+export class LetterAnalyticsProvider {
+    private panel: vscode.WebviewPanel | undefined;
+    private dayRecordManager: DayRecordManager;
+
+    constructor(
+        private readonly context: vscode.ExtensionContext
+    ) {
+        this.dayRecordManager = new DayRecordManager(context);
+    }
+
+    public show() {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'enpractice.letterAnalytics',
+            'English Practice Letter Errors',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.webview.html = this.getHtmlForWebview();
+
+        this.panel.webview.onDidReceiveMessage(async (data) => {
+            switch (data.type) {
+                case 'requestLetterStats':
+                    await this.sendLetterStats(data.mode);
+                    break;
+            }
+        });
+
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+    }
+
+    private async sendLetterStats(mode: PracticeMode | 'all') {
+        if (!this.panel) return;
+
+        try {
+            const modes = mode === 'all' ? LETTER_ERROR_MODES : LETTER_ERROR_MODES.filter(item => item === mode);
+            const stats = await this.collectLetterStats(modes);
+            this.panel.webview.postMessage({
+                type: 'letterStats',
+                stats: stats
+            });
+        } catch (error) {
+            console.error('发送字母错误统计失败:', error);
+        }
+    }
+
+    // 从所有日期的每日记录中汇总字母错误
+    private async collectLetterStats(modes: PracticeMode[]): Promise<any> {
+        const pairs: { [pairKey: string]: { expected: string; typed: string; count: number; words: { [word: string]: number } } } = {};
+        const words: { [word: string]: number } = {};
+        const positions: { [category in ErrorPositionCategory]: number } = { start: 0, middle: 0, end: 0 };
+        let totalErrors = 0;
+
+        const totalRecords = await this.dayRecordManager.getTotalRecords();
+        for (const { date } of totalRecords) {
+            for (const mode of modes) {
+                const record = await this.dayRecordManager.getDayRecord(date, mode);
+                for (const wordRecord of record ? record.words : []) {
+                    for (const letterError of wordRecord.letterErrors || []) {
+                        const word = wordRecord.word.toLowerCase();
+                        const pairKey = `${letterError.expected}>${letterError.typed}`;
+                        if (!pairs[pairKey]) {
+                            pairs[pairKey] = { expected: letterError.expected, typed: letterError.typed, count: 0, words: {} };
+                        }
+                        pairs[pairKey].count++;
+                        pairs[pairKey].words[word] = (pairs[pairKey].words[word] || 0) + 1;
+                        words[word] = (words[word] || 0) + 1;
+                        positions[getErrorPositionCategory(letterError.position, word.length)]++;
+                        totalErrors++;
+                    }
+                }
+            }
+        }
+
+        // 按次数降序排列
+        const sortByCount = (entries: { [word: string]: number }) => Object.entries(entries)
+            .map(([word, count]) => ({ word, count }))
+            .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word));
+
+        return {
+            totalErrors,
+            wordCount: Object.keys(words).length,
+            positions,
+            pairs: Object.values(pairs)
+                .sort((a, b) => b.count - a.count)
+                .map(pair => ({
+                    expected: pair.expected,
+                    typed: pair.typed,
+                    count: pair.count,
+                    words: sortByCount(pair.words).slice(0, TOP_WORDS_PER_PAIR)
+                })),
+            words: sortByCount(words)
+        };
+    }
+
+    private getHtmlForWebview(): string {
+        const modeTabs = LETTER_ERROR_MODES
+            .map(mode => `<button class="mode-tab" data-mode="${mode}">${PRACTICE_MODE_LABELS[mode]}</button>`)
+            .join('\n                ');
+
+        return `<!DOCTYPE html>
+        <html lang="zh-CN">
+        <head>
+            <meta charset="UTF-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>English Practice Letter Errors</title>
+            <style>
+                body {
+                    font-family: var(--vscode-font-family);
+                    font-size: var(--vscode-font-size);
+                    color: var(--vscode-foreground);
+                    background-color: var(--vscode-editor-background);
+                    margin: 0;
+                    padding: 10px;
+                }
+
+                .header {
+                    display: flex;
+                    align-items: center;
+                    gap: 10px;
+                    margin-bottom: 15px;
+                    padding-bottom: 10px;
+                    border-bottom: 1px solid var(--vscode-panel-border);
+                }
+
+                .header h2 {
+                    flex: 1;
+                    margin: 0;
+                }
+
+                .button {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                    border: none;
+                    padding: 4px 12px;
+                    border-radius: 2px;
+                    cursor: pointer;
+                    font-size: 13px;
+                }
+
+                .button:hover {
+                    background-color: var(--vscode-button-hoverBackground);
+                }
+
+                .mode-tabs {
+                    display: flex;
+                    gap: 10px;
+                    margin-bottom: 15px;
+                }
+
+                .mode-tab {
+                    background-color: var(--vscode-button-secondaryBackground);
+                    color: var(--vscode-button-secondaryForeground);
+                    border: none;
+                    padding: 6px 12px;
+                    border-radius: 4px;
+                    cursor: pointer;
+                    font-size: 13px;
+                }
+
+                .mode-tab.active {
+                    background-color: var(--vscode-button-background);
+                    color: var(--vscode-button-foreground);
+                }
+
+                .stats-container {
+                    display: grid;
+                    grid-template-columns: repeat(auto-fit, minmax(200px, 1fr));
+                    gap: 20px;
+                    margin-bottom: 20px;
+                }
+
+                .stat-card {
+                    background-color: var(--vscode-editor-widget-background);
+                    border: 1px solid var(--vscode-widget-border);
+                    border-radius: 4px;
+                    padding: 15px;
+                }
+
+                .stat-title {
+                    font-size: 14px;
+                    font-weight: bold;
+                    margin-bottom: 10px;
+                }
+
+                .stat-value {
+                    font-size: 24px;
+                    font-weight: bold;
+                    color: var(--vscode-charts-red);
+                }
+
+                .stat-detail {
+                    font-size: 12px;
+                    color: var(--vscode-descriptionForeground);
+                    margin-top: 5px;
+                }
+
+                .section {
+                    background-color: var(--vscode-editor-widget-background);
+                    border: 1px solid var(--vscode-widget-border);
+                    border-radius: 4px;
+                    padding: 15px;
+                    margin-bottom: 20px;
+                    overflow-x: auto;
+                }
+
+                .section-header {
+                    font-size: 14px;
+                    font-weight: bold;
+                    margin-bottom: 10px;
+                    display: flex;
+                    justify-content: space-between;
+                }
+
+                table {
+                    width: 100%;
+                    border-collapse: collapse;
+                    font-size: 13px;
+                }
+
+                th, td {
+                    border: 1px solid var(--vscode-widget-border);
+                    padding: 6px 10px;
+                    text-align: left;
+                }
+
+                td {
+                    background-color: var(--vscode-input-background);
+                }
+
+                .letter {
+                    font-family: var(--vscode-editor-font-family);
+                    font-weight: bold;
+                    padding: 0 4px;
+                    border-radius: 2px;
+                }
+
+                .letter.expected {
+                    color: var(--vscode-charts-green);
+                }
+
+                .letter.typed {
+                    color: var(--vscode-charts-red);
+                }
+
+                .bar {
+                    display: inline-block;
+                    height: 8px;
+                    border-radius: 2px;
+                    background-color: var(--vscode-charts-red);
+                    vertical-align: middle;
+                    margin-right: 6px;
+                }
+
+                .word-chip {
+                    display: inline-block;
+                    margin: 2px 6px 2px 0;
+                }
+
+                .empty-state {
+                    text-align: center;
+                    color: var(--vscode-descriptionForeground);
+                    padding: 40px 20px;
+                }
+            </style>
+        </head>
+        <body>
+            <div class="header">
+                <h2>🔤 字母错误分析</h2>
+                <button class="button" id="refreshBtn">🔄 刷新</button>
+            </div>
+
+            <div class="mode-tabs">
+                <button class="mode-tab active" data-mode="all">📈 全部拼写模式</button>
+                ${modeTabs}
+            </div>
+
+            <div id="content">
+                <div class="empty-state">加载中...</div>
+            </div>
+
+            <script>
+                const vscode = acquireVsCodeApi();
+
+                // 当前选择的模式
+                let currentMode = 'all';
+
+                // 错误位置显示名称
+                const positionLabels = { start: '开头', middle: '中间', end: '结尾' };
+
+                function requestStats() {
+                    vscode.postMessage({ type: 'requestLetterStats', mode: currentMode });
+                }
+
+                // 刷新按钮
+                document.getElementById('refreshBtn').addEventListener('click', requestStats);
+
+                // 模式切换
+                document.querySelectorAll('.mode-tab').forEach(tab => {
+                    tab.addEventListener('click', () => {
+                        document.querySelectorAll('.mode-tab').forEach(t => t.classList.remove('active'));
+                        tab.classList.add('active');
+                        currentMode = tab.dataset.mode;
+                        requestStats();
+                    });
+                });
+
+                // 接收来自扩展的消息
+                window.addEventListener('message', event => {
+                    const message = event.data;
+                    switch (message.type) {
+                        case 'letterStats':
+                            updateContent(message.stats);
+                            break;
+                    }
+                });
+
+                // 转义 HTML 特殊字符
+                function escapeHtml(text) {
+                    return String(text).replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]);
+                }
+
+                // 显示字母（空格和多余输入用文字说明）
+                function formatLetter(letter, className) {
+                    if (!letter) {
+                        return '<span class="letter ' + className + '">（无）</span>';
+                    }
+                    return '<span class="letter ' + className + '">' + (letter === ' ' ? '␣' : escapeHtml(letter)) + '</span>';
+                }
+
+                function updateContent(stats) {
+                    const content = document.getElementById('content');
+                    if (!stats || stats.totalErrors === 0) {
+                        content.innerHTML = '<div class="empty-state">暂无字母错误记录，拼写练习中输错的字母会出现在这里</div>';
+                        return;
+                    }
+
+                    // 汇总卡片和错误位置分布
+                    let html = '<div class="stats-container">' +
+                        '<div class="stat-card">' +
+                            '<div class="stat-title">输错字母数</div>' +
+                            '<div class="stat-value">' + stats.totalErrors + '</div>' +
+                            '<div class="stat-detail">涉及 ' + stats.wordCount + ' 个单词</div>' +
+                        '</div>';
+                    Object.keys(positionLabels).forEach(category => {
+                        const count = stats.positions[category] || 0;
+                        html += '<div class="stat-card">' +
+                            '<div class="stat-title">单词' + positionLabels[category] + '</div>' +
+                            '<div class="stat-value">' + (count / stats.totalErrors * 100).toFixed(1) + '%</div>' +
+                            '<div class="stat-detail">' + count + ' 次</div>' +
+                        '</div>';
+                    });
+                    html += '</div>';
+
+                    // 最常混淆的字母对
+                    const maxCount = stats.pairs.length > 0 ? stats.pairs[0].count : 0;
+                    html += '<div class="section">' +
+                        '<div class="section-header"><span>最常混淆的字母</span><span>' + stats.pairs.length + ' 组</span></div>' +
+                        '<table><thead><tr><th>应输入</th><th>实际输入</th><th>次数</th><th>相关单词</th></tr></thead><tbody>';
+                    stats.pairs.forEach(pair => {
+                        const barWidth = maxCount > 0 ? Math.max(2, Math.round(pair.count / maxCount * 100)) : 0;
+                        html += '<tr>' +
+                            '<td>' + formatLetter(pair.expected, 'expected') + '</td>' +
+                            '<td>' + formatLetter(pair.typed, 'typed') + '</td>' +
+                            '<td><span class="bar" style="width: ' + barWidth + 'px;"></span>' + pair.count + '</td>' +
+                            '<td>' + pair.words.map(item => '<span class="word-chip">' + escapeHtml(item.word) + ' ×' + item.count + '</span>').join('') + '</td>' +
+                        '</tr>';
+                    });
+                    html += '</tbody></table></div>';
+
+                    // 字母错误最多的单词
+                    html += '<div class="section">' +
+                        '<div class="section-header"><span>字母错误最多的单词</span><span>' + stats.words.length + ' 个</span></div>' +
+                        '<table><thead><tr><th>单词</th><th>输错字母数</th></tr></thead><tbody>';
+                    stats.words.slice(0, 50).forEach(item => {
+                        html += '<tr><td>' + escapeHtml(item.word) + '</td><td>' + item.count + '</td></tr>';
+                    });
+                    html += '</tbody></table></div>';
+
+                    content.innerHTML = html;
+                }
+
+                // 页面加载时请求统计数据
+                requestStats();
+            </script>
+        </body>
+        </html>`;
+    }
+}
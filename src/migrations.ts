@@ -0,0 +1,400 @@
+import * as vscode from 'vscode';
+import { ChapterRecord, DayRecord, DayWordRecord, DictRecord, WordRecord } from './types';
+import { DAY_RECORD_KEY_PATTERN } from './dayRecordManager';
+import { getWordKey, LEGACY_CHAPTER_KEY_PATTERN, MAIN_RECORD_KEY_PATTERN, mergeWordRecords, WORD_BUCKET_KEY_PATTERN } from './shardedRecordManager';
+import { StoredData } from './dataMerge';
+
+// 存储数据的版本：每次修改保存的数据结构时添加一个迁移，激活插件和导入数据时按顺序执行尚未执行的迁移
+
+// 数据版本的 globalState 键名（未设置时为 0，即添加版本之前的数据）
+export const SCHEMA_VERSION_KEY = 'enpractice.schemaVersion';
+
+// 迁移读写的数据（插件的 globalState 或导入文件中的数据）
+export type MigrationState = Pick<vscode.Memento, 'keys' | 'get' | 'update'>;
+
+export interface Migration {
+    version: number;        // 执行后的数据版本
+    description: string;
+    migrate(state: MigrationState): Promise<string | void>;  // 返回需要提示用户的消息
+}
+
+const TOTAL_RECORDS_KEY = 'enpractice.dayRecords.totalRecords';
+const ATTEMPT_MODEL_KEY = 'enpractice.dayRecords.attemptModel';
+
+// 原来使用打乱后的词书文件、现在按种子打乱单词顺序的内置乱序词书
+const RESHUFFLED_BOOK_IDS = ['hongbaoshu-2026-shuffled', 'nce1-shuffled', 'nce2-shuffled', 'nce3-shuffled', 'nce4-shuffled'];
+
+// 迁移列表（按版本顺序，已发布的迁移不再修改，只在末尾添加）
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: '词典记录移除 chapterRecords 和 globalStats',
+        migrate: migrateDictRecords
+    },
+    {
+        version: 2,
+        description: '每日记录的按键级记录合并为作答记录',
+        migrate: migrateAttemptRecords
+    },
+    {
+        version: 3,
+        description: '整理总记录（去除重复和无效的日期，按日期排序）',
+        migrate: migrateTotalRecords
+    },
+    {
+        version: 4,
+        description: '内置乱序词书改为按种子打乱后重置练习位置',
+        migrate: resetReshuffledPositions
+    },
+    {
+        version: 5,
+        description: '单词记录的按键级计数换算为作答计数',
+        migrate: migrateWordCounters
+    }
+];
+
+// 当前的数据版本
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// 插件激活时的数据迁移（迁移完成前练习面板、数据面板和命令不读写练习数据）
+let storageReady: Promise<void> = Promise.resolve();
+
+// 设置激活时数据迁移的 Promise（需要在迁移失败时也完成，失败由调用方提示）
+export function setStorageReady(ready: Promise<void>): void {
+    storageReady = ready;
+}
+
+// 等待激活时的数据迁移完成
+export function whenStorageReady(): Promise<void> {
+    return storageReady;
+}
+
+// 获取数据的版本
+export function getSchemaVersion(state: MigrationState): number {
+    const version = state.get<number>(SCHEMA_VERSION_KEY);
+    return typeof version === 'number' ? version : 0;
+}
+
+// 按顺序执行尚未执行的迁移（每个迁移完成后更新数据版本，失败时停止并抛出错误，下次激活时从失败的迁移继续）
+// 返回迁移中需要提示用户的消息
+export async function runMigrations(state: MigrationState): Promise<string[]> {
+    const notices: string[] = [];
+    const version = getSchemaVersion(state);
+    if (version > CURRENT_SCHEMA_VERSION) {
+        // 数据来自更新版本的插件，不做修改
+        console.warn(`数据版本 ${version} 高于当前支持的版本 ${CURRENT_SCHEMA_VERSION}`);
+        return notices;
+    }
+
+    for (const migration of MIGRATIONS) {
+        if (migration.version <= version) {
+            continue;
+        }
+        try {
+            const notice = await migration.migrate(state);
+            if (notice) {
+                notices.push(notice);
+            }
+            await state.update(SCHEMA_VERSION_KEY, migration.version);
+            console.log(`数据迁移完成: ${migration.version} ${migration.description}`);
+        } catch (error) {
+            console.error(`数据迁移失败(${migration.version} ${migration.description}):`, error);
+            throw error;
+        }
+    }
+    return notices;
+}
+
+// 在内存中读写导入文件的数据
+class StoredDataState implements MigrationState {
+    private data: StoredData;
+
+    constructor(data: StoredData) {
+        this.data = { ...data };
+    }
+
+    keys(): readonly string[] {
+        return Object.keys(this.data);
+    }
+
+    get<T>(key: string, defaultValue?: T): T {
+        return key in this.data ? this.data[key] : defaultValue;
+    }
+
+    async update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            delete this.data[key];
+        } else {
+            this.data[key] = value;
+        }
+    }
+
+    toStoredData(): StoredData {
+        return this.data;
+    }
+}
+
+// 检查导入数据中已知键的结构，返回第一个格式不正确的键
+function findInvalidKey(data: StoredData): string | undefined {
+    const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+    for (const [key, value] of Object.entries(data)) {
+        let valid = true;
+        if (key === TOTAL_RECORDS_KEY) {
+            valid = Array.isArray(value);
+        } else if (key === 'enpractice.settings') {
+            valid = isObject(value);
+        } else if (DAY_RECORD_KEY_PATTERN.test(key)) {
+            valid = isObject(value) && Array.isArray(value.words)
+                && value.words.every((word: any) => isObject(word) && typeof word.word === 'string' && typeof word.practiceTime === 'string');
+        } else if (MAIN_RECORD_KEY_PATTERN.test(key)) {
+            valid = isObject(value) && typeof value.dictId === 'string'
+                && typeof value.currentChapter === 'number' && typeof value.currentWordIndex === 'number';
+        } else if (WORD_BUCKET_KEY_PATTERN.test(key)) {
+            valid = isObject(value) && Object.values(value).every((record: any) => isObject(record) && typeof record.practiceCount === 'number');
+        } else if (LEGACY_CHAPTER_KEY_PATTERN.test(key)) {
+            valid = isObject(value) && (value.wordRecords === undefined || isObject(value.wordRecords));
+        }
+        if (!valid) {
+            return key;
+        }
+    }
+    return undefined;
+}
+
+// 校验导出文件的内容并升级到当前的数据版本（不修改插件的数据）
+export async function upgradeImportData(importData: unknown): Promise<StoredData> {
+    if (!importData || typeof importData !== 'object' || Array.isArray(importData)) {
+        throw new Error('文件内容不是导出的数据');
+    }
+    const data: StoredData = {};
+    for (const [key, value] of Object.entries(importData)) {
+        if (key.startsWith('enpractice.')) {
+            data[key] = value;
+        }
+    }
+    if (Object.keys(data).length === 0) {
+        throw new Error('文件中没有 EnPractice 的数据');
+    }
+
+    const version = data[SCHEMA_VERSION_KEY] === undefined ? 0 : data[SCHEMA_VERSION_KEY];
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        throw new Error('数据版本无效');
+    }
+    if (version > CURRENT_SCHEMA_VERSION) {
+        throw new Error(`导出文件的数据版本（${version}）高于当前插件支持的版本（${CURRENT_SCHEMA_VERSION}），请先更新插件`);
+    }
+    const invalidKey = findInvalidKey(data);
+    if (invalidKey) {
+        throw new Error(`数据格式不正确: ${invalidKey}`);
+    }
+
+    const state = new StoredDataState(data);
+    await runMigrations(state);
+    if (getSchemaVersion(state) !== CURRENT_SCHEMA_VERSION) {
+        throw new Error('升级导出文件的数据失败');
+    }
+    return state.toStoredData();
+}
+
+// 版本 1：旧版词典记录内嵌了章节记录（chapterRecords）和汇总统计（globalStats）
+// 内嵌章节记录中的单词记录转存为旧版章节记录（打开词书时再合并到单词记录中），汇总统计从单词记录计算，直接删除
+async function migrateDictRecords(state: MigrationState): Promise<void> {
+    for (const key of state.keys()) {
+        const match = key.match(MAIN_RECORD_KEY_PATTERN);
+        if (!match) {
+            continue;
+        }
+        const stored = state.get<DictRecord & { chapterRecords?: unknown; globalStats?: unknown }>(key);
+        if (!stored || (stored.chapterRecords === undefined && stored.globalStats === undefined)) {
+            continue;
+        }
+
+        const { chapterRecords, globalStats, ...record } = stored;
+        const embedded = chapterRecords && typeof chapterRecords === 'object' ? Object.values(chapterRecords) as ChapterRecord[] : [];
+        for (const chapterRecord of embedded) {
+            if (!chapterRecord || !chapterRecord.chapterNumber || !chapterRecord.wordRecords) {
+                continue;
+            }
+            const chapterKey = `enpractice.records.${match[1]}.${match[2]}.ch${chapterRecord.chapterNumber}`;
+            const existing = state.get<ChapterRecord>(chapterKey);
+            const wordRecords: { [word: string]: WordRecord } = { ...(existing?.wordRecords || {}) };
+            for (const [word, wordRecord] of Object.entries(chapterRecord.wordRecords)) {
+                wordRecords[word] = mergeWordRecords(wordRecords[word], wordRecord);
+            }
+            await state.update(chapterKey, { ...(existing || chapterRecord), wordRecords });
+        }
+        await state.update(key, record);
+    }
+}
+
+// 版本 2：旧版每次输错都会添加一条错误记录，同一单词连续的错误记录和随后的正确记录合并为一次作答
+async function migrateAttemptRecords(state: MigrationState): Promise<void> {
+    for (const key of state.keys()) {
+        if (!DAY_RECORD_KEY_PATTERN.test(key)) {
+            continue;
+        }
+        const record = state.get<DayRecord>(key);
+        if (!record || !record.words.some(word => word.mistakes === undefined)) {
+            continue;
+        }
+        await state.update(key, { ...record, words: mergeLegacyRecords(record.words) });
+    }
+    // 转换标记由数据版本代替
+    await state.update(ATTEMPT_MODEL_KEY, undefined);
+}
+
+// 合并旧版按键级记录（已是作答记录的条目保持不变）
+function mergeLegacyRecords(words: DayWordRecord[]): DayWordRecord[] {
+    const merged: DayWordRecord[] = [];
+    let pending: DayWordRecord[] = [];
+
+    // 将累积的记录合并为一次作答（以最后一条记录的时间为完成时间）
+    const flush = () => {
+        if (pending.length === 0) {
+            return;
+        }
+        const last = pending[pending.length - 1];
+        const mistakes = pending.filter(word => !word.isCorrect).length;
+        merged.push({
+            ...last,
+            isCorrect: mistakes === 0,
+            mistakes,
+            firstTryClean: mistakes === 0
+        });
+        pending = [];
+    };
+
+    for (const word of words) {
+        if (word.mistakes !== undefined) {
+            flush();
+            merged.push(word);
+            continue;
+        }
+        // 换了单词说明上一个单词未完成作答
+        if (pending.length > 0 && (pending[0].word !== word.word || pending[0].dictId !== word.dictId)) {
+            flush();
+        }
+        pending.push(word);
+        if (word.isCorrect) {
+            flush();
+        }
+    }
+    flush();
+    return merged;
+}
+
+// 版本 3：总记录由多处分别追加，可能包含重复或格式无效的日期，统一为按日期去重排序的列表
+async function migrateTotalRecords(state: MigrationState): Promise<void> {
+    const totalRecords = state.get<unknown[]>(TOTAL_RECORDS_KEY);
+    if (!Array.isArray(totalRecords)) {
+        return;
+    }
+
+    const byDate = new Map<string, { date: string; analysisGenerated: boolean }>();
+    for (const item of totalRecords) {
+        const entry = item as { date?: unknown; analysisGenerated?: unknown };
+        if (!entry || typeof entry.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(entry.date)) {
+            continue;
+        }
+        const previous = byDate.get(entry.date);
+        byDate.set(entry.date, {
+            date: entry.date,
+            analysisGenerated: previous?.analysisGenerated === true || entry.analysisGenerated === true
+        });
+    }
+    const normalized = Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+    await state.update(TOTAL_RECORDS_KEY, normalized);
+}
+
+// 版本 4：内置乱序词书原来使用打乱后的词书文件，改为按种子打乱后单词顺序不同，保存的练习位置不再对应原来的单词
+// 原来的打乱顺序已不再随插件发布，无法换算，练习位置重置到第一章（单词记录按单词保存，不受影响）
+async function resetReshuffledPositions(state: MigrationState): Promise<string | void> {
+    const resetBooks = new Set<string>();
+    for (const key of state.keys()) {
+        const match = key.match(MAIN_RECORD_KEY_PATTERN);
+        if (!match || !RESHUFFLED_BOOK_IDS.includes(match[1])) {
+            continue;
+        }
+        const record = state.get<DictRecord>(key);
+        if (!record || (record.currentChapter === 1 && record.currentWordIndex === 0)) {
+            continue;
+        }
+        await state.update(key, { ...record, currentChapter: 1, currentWordIndex: 0 });
+        resetBooks.add(record.dictName || record.dictId);
+    }
+    if (resetBooks.size > 0) {
+        return `乱序词书改为按固定种子打乱单词顺序，以下词书的练习位置已重置到第 1 章：${Array.from(resetBooks).join('、')}`;
+    }
+}
+
+// 版本 5：旧版单词记录每次输错都计一次练习和错误，完成输入时再计一次练习和正确
+// 即练习次数 = 完成次数 + 输错按键数，正确次数 = 完成次数，错误次数 = 输错按键数，换算为按作答计数：
+// 作答次数为完成次数，出错次数为输错按键数，出错的作答数优先取每日记录中同一单词的作答（覆盖全部完成次数时），
+// 否则按每次输错都在不同的作答中估算（不超过作答次数）；已按作答计数的单词记录（有 timedCount）保持不变
+async function migrateWordCounters(state: MigrationState): Promise<void> {
+    // 每日记录中各单词的作答数和出错的作答数（键为 模式|词典ID|单词键）
+    const attempts = new Map<string, { total: number; failed: number }>();
+    for (const key of state.keys()) {
+        const match = key.match(DAY_RECORD_KEY_PATTERN);
+        if (!match) {
+            continue;
+        }
+        const record = state.get<DayRecord>(key);
+        for (const word of record?.words || []) {
+            const attemptKey = `${match[2] || 'normal'}|${word.dictId}|${getWordKey(word.word)}`;
+            const counts = attempts.get(attemptKey) || { total: 0, failed: 0 };
+            counts.total++;
+            if (word.firstTryClean === false || (word.firstTryClean === undefined && !word.isCorrect)) {
+                counts.failed++;
+            }
+            attempts.set(attemptKey, counts);
+        }
+    }
+
+    const convert = (storeId: string, mode: string, wordKey: string, record: WordRecord): WordRecord => {
+        if (record.timedCount !== undefined) {
+            return record;
+        }
+        const completed = record.correctCount;
+        const mistakes = record.errorCount;
+        const counts = attempts.get(`${mode}|${storeId}|${wordKey}`);
+        const failed = counts && counts.total === completed ? counts.failed : Math.min(mistakes, completed);
+        return {
+            ...record,
+            practiceCount: completed,
+            correctCount: completed - failed,
+            errorCount: failed,
+            mistakeCount: mistakes,
+            correctRate: completed > 0 ? ((completed - failed) / completed) * 100 : 0
+        };
+    };
+
+    for (const key of state.keys()) {
+        const bucketMatch = key.match(WORD_BUCKET_KEY_PATTERN);
+        if (bucketMatch) {
+            const bucket = state.get<{ [wordKey: string]: WordRecord }>(key);
+            if (!bucket) {
+                continue;
+            }
+            const converted: { [wordKey: string]: WordRecord } = {};
+            for (const [wordKey, record] of Object.entries(bucket)) {
+                converted[wordKey] = convert(bucketMatch[1], bucketMatch[2], wordKey, record);
+            }
+            await state.update(key, converted);
+            continue;
+        }
+        // 尚未合并到单词记录的旧版章节记录也需要换算，合并时直接累加
+        const chapterMatch = key.match(LEGACY_CHAPTER_KEY_PATTERN);
+        if (chapterMatch) {
+            const chapterRecord = state.get<ChapterRecord>(key);
+            if (!chapterRecord || !chapterRecord.wordRecords) {
+                continue;
+            }
+            const wordRecords: { [word: string]: WordRecord } = {};
+            for (const [word, record] of Object.entries(chapterRecord.wordRecords)) {
+                wordRecords[word] = convert(chapterMatch[1], chapterMatch[2], getWordKey(word), record);
+            }
+            await state.update(key, { ...chapterRecord, wordRecords });
+        }
+    }
+}
@@ -0,0 +1,96 @@
+import * as vscode from 'vscode';
+import { MistakeScope, PracticeMode, SessionWord, WordBookInfo } from './types';
+import { getRecordStoreId, getStoredWordBooks, loadWordBookData } from './wordbooks';
+import { ShardedRecordManager, getWordKey } from './shardedRecordManager';
+import { getBookWordsPerChapter, getSettings } from './settings';
+
+// 错题本统计来源：拼写类模式以及错题本自身的练习记录
+const MISTAKE_SOURCE_MODES: PracticeMode[] = ['normal', 'dictation', 'mistakes'];
+
+/**
+ * 错题本管理器
+ * 汇总各模式的单词记录，筛选出出错或正确率低于阈值的单词组成练习会话
+ */
+export class MistakeNotebookManager {
+    private context: vscode.ExtensionContext;
+    private recordManager: ShardedRecordManager;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+        this.recordManager = new ShardedRecordManager(context);
+    }
+
+    // 判断单词是否应进入错题本（阈值为100时包含所有出过错的单词）
+    public static isMistake(correctCount: number, practiceCount: number, errorCount: number, threshold: number): boolean {
+        if (practiceCount === 0 || errorCount === 0) {
+            return false;
+        }
+        return (correctCount / practiceCount) * 100 < threshold;
+    }
+
+    // 构建错题本会话
+    async buildSession(currentDictId: string, scope: MistakeScope, threshold: number): Promise<SessionWord[]> {
+        const wordBooks = await getStoredWordBooks(this.context);
+        const targetBooks = scope === 'all'
+            ? wordBooks
+            : wordBooks.filter(book => book.id === currentDictId);
+
+        // 同源词书共享练习记录，全部词书范围内每个来源只收集一次（优先使用当前词书的顺序和章节）
+        targetBooks.sort((a, b) => Number(b.id === currentDictId) - Number(a.id === currentDictId));
+        const collectedStores = new Set<string>();
+        const sessionWords: SessionWord[] = [];
+        for (const book of targetBooks) {
+            const storeId = getRecordStoreId(book);
+            if (collectedStores.has(storeId)) {
+                continue;
+            }
+            collectedStores.add(storeId);
+            try {
+                sessionWords.push(...await this.collectBookMistakes(book, threshold));
+            } catch (error) {
+                console.error(`读取错题失败: ${book.id}`, error);
+            }
+        }
+
+        return sessionWords;
+    }
+
+    // 收集单个词书中的错题（正确率最低的单词排在前面）
+    private async collectBookMistakes(book: WordBookInfo, threshold: number): Promise<SessionWord[]> {
+        const words = await loadWordBookData(this.context, book.id);
+        const wordsPerChapter = getBookWordsPerChapter(await getSettings(this.context), book.id);
+
+        // 按单词汇总各模式的练习次数
+        const totals: { [wordKey: string]: { practiceCount: number; correctCount: number; errorCount: number } } = {};
+        for (const mode of MISTAKE_SOURCE_MODES) {
+            const wordRecords = await this.recordManager.loadWordRecords(book.id, mode);
+            for (const [wordKey, wordRecord] of Object.entries(wordRecords)) {
+                if (!totals[wordKey]) {
+                    totals[wordKey] = { practiceCount: 0, correctCount: 0, errorCount: 0 };
+                }
+                totals[wordKey].practiceCount += wordRecord.practiceCount;
+                totals[wordKey].correctCount += wordRecord.correctCount;
+                totals[wordKey].errorCount += wordRecord.errorCount;
+            }
+        }
+
+        const mistakes = Object.entries(totals)
+            .filter(([, stats]) => MistakeNotebookManager.isMistake(stats.correctCount, stats.practiceCount, stats.errorCount, threshold))
+            .sort(([, a], [, b]) => (a.correctCount / a.practiceCount) - (b.correctCount / b.practiceCount));
+
+        // 章节按单词在当前词书中的位置计算（已从词书中移除的单词不再练习）
+        const sessionWords: SessionWord[] = [];
+        for (const [wordKey] of mistakes) {
+            const index = words.findIndex(w => getWordKey(w.name) === wordKey);
+            if (index >= 0) {
+                sessionWords.push({
+                    dictId: book.id,
+                    dictName: book.name,
+                    chapterNumber: Math.floor(index / wordsPerChapter) + 1,
+                    word: words[index]
+                });
+            }
+        }
+        return sessionWords;
+    }
+}
@@ -1,8 +1,22 @@
 import * as vscode from 'vscode';
-import { PluginSettings, WordData, ChapterInfo, defaultSettings, defaultWordsData, FIXED_WORDS_PER_CHAPTER, DictRecord, PracticeMode } from './types';
-import { getSettings, updateSetting } from './settings';
-import { getStoredWordBooks, loadWordBookData } from './wordbooks';
-import { ShardedRecordManager } from './shardedRecordManager';
+import { PluginSettings, WordData, ChapterInfo, defaultSettings, defaultWordsData, DictRecord, PracticeMode, SessionWord, MistakeScope, WordOrder, WordAttempt, LetterError, HINT_TYPES } from './types';
+import { CONFIG_SECTION, getBookWordsPerChapter, getSettings, updateSetting } from './settings';
+import { getBookWordOrder, getStoredWordBooks, invalidateWordBookCache, loadWordBookData } from './wordbooks';
+import { ShardedRecordManager, getWordKey } from './shardedRecordManager';
+import { SrsManager } from './srsManager';
+import { MistakeNotebookManager } from './mistakeNotebook';
+import { createSeed, seedFromString, shuffleWords } from './wordOrder';
+import { QuizQuestion, buildQuizQuestion } from './quiz';
+import { matchSense } from './senses';
+import { gradeSpelling } from './spellingDiff';
+import { foldAnswer, getAnswerKey, getFoldingScript, getFormTarget } from './answerMatching';
+import { whenStorageReady } from './migrations';
+
+// 每次作答最多记录的字母错误数
+const MAX_LETTER_ERRORS = 20;
+
+// 每次作答最多记录的提示数
+const MAX_HINTS = 20;
 
 export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
@@ -14,11 +28,21 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
     private recordManager: ShardedRecordManager;
     private currentDictRecord?: DictRecord;
     private currentDictId: string = '';
+    private currentDictName: string = '';  // 当前词书的名称（加载词书时记录，作答时不再读取词书列表）
+    private wordOrder: WordOrder = 'sequential';
+    private srsManager: SrsManager;
+    private mistakeNotebook: MistakeNotebookManager;
+    // 复习会话：到期复习或错题本（存在时代替当前章节的单词）
+    private reviewSession?: { kind: 'due' | 'mistakes'; words: SessionWord[]; index: number };
+    // 选择题模式下当前单词的题目（同一单词刷新显示时保持选项不变）
+    private quizQuestion?: QuizQuestion;
 
     constructor(private readonly _extensionUri: vscode.Uri, context: vscode.ExtensionContext) {
         this.context = context;
         // 统一使用分片记录管理器
         this.recordManager = new ShardedRecordManager(context);
+        this.srsManager = new SrsManager(context);
+        this.mistakeNotebook = new MistakeNotebookManager(context);
     }
 
 
@@ -45,6 +69,11 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                 if (targetBook) {
                     this.wordsData = await loadWordBookData(this.context, targetBook.id);
                     this.currentDictId = targetBook.id;
+                    this.currentDictName = targetBook.name;
+                    this.wordOrder = getBookWordOrder(this.settings, targetBook).order;
+                    
+                    // 每章单词数变化后换算练习位置
+                    await this.recordManager.ensureChapterLayout(targetBook.id);
                     
                     // 加载词典记录
                     this.currentDictRecord = await this.recordManager.loadDictRecord(
@@ -59,9 +88,9 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                         this.settings.currentChapter = this.currentDictRecord.currentChapter;
                         this.settings.currentWordIndex = this.currentDictRecord.currentWordIndex;
                         this.settings.practiceMode = this.currentDictRecord.practiceMode;
-                        this.settings.chapterLoop = this.currentDictRecord.chapterLoop;
                     }
                     
+                    await this.prepareSession();
                     return;
                 }
             } catch (listError) {
@@ -88,6 +117,12 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             if (targetBook) {
                 this.wordsData = await loadWordBookData(context, bookId);
                 this.currentDictId = bookId;
+                this.currentDictName = targetBook.name;
+                this.wordOrder = getBookWordOrder(this.settings, targetBook).order;
+                this.reviewSession = undefined;
+                
+                // 每章单词数变化后换算练习位置
+                await this.recordManager.ensureChapterLayout(bookId);
                 
                 // 加载新词典的记录
                 this.currentDictRecord = await this.recordManager.loadDictRecord(
@@ -102,10 +137,12 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                     this.settings.currentChapter = this.currentDictRecord.currentChapter;
                     this.settings.currentWordIndex = this.currentDictRecord.currentWordIndex;
                     this.settings.practiceMode = this.currentDictRecord.practiceMode;
-                    this.settings.chapterLoop = this.currentDictRecord.chapterLoop;
                 }
                 
+                await this.prepareSession();
+                
                 // 更新设置文件中的当前词书
+                this.settings.currentWordbook = bookId;
                 await updateSetting(context, 'currentWordbook', bookId);
                 
                 // 更新练习面板webview数据
@@ -147,9 +184,71 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    // 更新当前词书的每章单词数（按新的章节划分恢复练习位置）
+    public async updateWordsPerChapter(wordsPerChapter: number): Promise<void> {
+        if (!this.currentDictId) {
+            return;
+        }
+        
+        this.settings.bookSettings = {
+            ...this.settings.bookSettings,
+            [this.currentDictId]: { ...this.settings.bookSettings[this.currentDictId], wordsPerChapter }
+        };
+        await this.reloadChapterLayout();
+    }
+
+    // 按当前的每章单词数重新划分章节并恢复练习位置
+    private async reloadChapterLayout(): Promise<void> {
+        await this.recordManager.ensureChapterLayout(this.currentDictId);
+        const wordBooksList = await getStoredWordBooks(this.context);
+        const targetBook = wordBooksList.find((book: any) => book.id === this.currentDictId);
+        this.currentDictRecord = await this.recordManager.loadDictRecord(
+            this.currentDictId,
+            targetBook ? targetBook.name : '',
+            this.wordsData.length,
+            this.settings.practiceMode
+        );
+        this.settings.currentChapter = this.currentDictRecord.currentChapter;
+        this.settings.currentWordIndex = this.currentDictRecord.currentWordIndex;
+        
+        await this.prepareSession();
+        this.updateWebview();
+    }
+
+    // 更新当前词书的单词顺序或乱序种子（重新加载单词并从当前章节开头练习，练习统计不受影响）
+    public async updateWordOrder(): Promise<void> {
+        if (!this.currentDictId) {
+            return;
+        }
+        
+        this.settings.bookSettings = (await getSettings(this.context)).bookSettings;
+        const wordBooksList = await getStoredWordBooks(this.context);
+        const targetBook = wordBooksList.find((book: any) => book.id === this.currentDictId);
+        if (!targetBook) {
+            return;
+        }
+        
+        this.wordsData = await loadWordBookData(this.context, targetBook.id);
+        this.wordOrder = getBookWordOrder(this.settings, targetBook).order;
+        await updateSetting(this.context, 'currentWordIndex', 0);
+        this.settings.currentWordIndex = 0;
+        await this.recordManager.updateCurrentPosition(this.currentDictId, this.settings.currentChapter, 0, this.settings.practiceMode);
+        await this.startChapterPass();
+        await this.prepareSession();
+        
+        if (this._view) {
+            this._view.webview.postMessage({
+                command: 'loadWords',
+                data: this.wordsData
+            });
+        }
+        this.updateWebview();
+    }
+
     // 更新练习模式
     public async updatePracticeMode(practiceMode: PracticeMode): Promise<void> {
         this.settings.practiceMode = practiceMode;
+        this.reviewSession = undefined;
         
         // 加载新模式的记录
         if (this.currentDictId) {
@@ -167,9 +266,10 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                 if (this.currentDictRecord) {
                     this.settings.currentChapter = this.currentDictRecord.currentChapter;
                     this.settings.currentWordIndex = this.currentDictRecord.currentWordIndex;
-                    this.settings.chapterLoop = this.currentDictRecord.chapterLoop;
                 }
                 
+                await this.prepareSession();
+                
                 // 重新生成HTML并更新webview
                 if (this._view) {
                     this._view.webview.html = this._getHtmlForWebview(this._view.webview, practiceMode);
@@ -182,15 +282,120 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    // 更新错题本设置（阈值和来源范围）
+    public async updateMistakeSettings(mistakeThreshold: number, mistakeScope: MistakeScope): Promise<void> {
+        this.settings.mistakeThreshold = mistakeThreshold;
+        this.settings.mistakeScope = mistakeScope;
+        
+        if (this.settings.practiceMode === 'mistakes') {
+            await this.prepareSession();
+            this.updateWebview();
+        }
+    }
+
+    // 更新显示设置（音标、释义、自动跳转），webview 根据发送的设置立即更新显示
+    public updateDisplaySettings(displaySettings: Pick<PluginSettings, 'showPhonetics' | 'phoneticAccent' | 'showTranslation' | 'autoNextWord' | 'autoNextDelayMs'>): void {
+        this.settings = { ...this.settings, ...displaySettings };
+        this.updateWebview();
+    }
+
+    // 更新拼写判定设置（忽略重音符号、忽略标点）
+    public updateAnswerMatching(ignoreDiacritics: boolean, ignorePunctuation: boolean): void {
+        this.settings.ignoreDiacritics = ignoreDiacritics;
+        this.settings.ignorePunctuation = ignorePunctuation;
+        this.updateWebview();
+    }
+
+    // 更新宽松默写设置（webview 根据发送的设置切换提交方式）
+    public updateLenientDictation(lenientDictation: boolean): void {
+        this.settings.lenientDictation = lenientDictation;
+        this.updateWebview();
+    }
+
+    // VS Code 配置变化后同步练习面板（设置面板的修改也写入配置，统一在这里生效）
+    public async handleConfigurationChange(event: vscode.ConfigurationChangeEvent): Promise<void> {
+        if (!event.affectsConfiguration(CONFIG_SECTION) || !this.isInitialized) {
+            return;
+        }
+        
+        try {
+            const settings = await getSettings(this.context);
+            const changed = (...keys: (keyof PluginSettings)[]) => keys.some(key => settings[key] !== this.settings[key]);
+            
+            // 用户词书目录变化后词书列表可能不同，重新加载全部数据
+            if (changed('userWordbookDir')) {
+                await this.refreshWordBooks();
+                return;
+            }
+            
+            this.settings.dayRolloverHour = settings.dayRolloverHour;
+            if (changed('lenientDictation')) {
+                this.updateLenientDictation(settings.lenientDictation);
+            }
+            if (changed('ignoreDiacritics', 'ignorePunctuation')) {
+                this.updateAnswerMatching(settings.ignoreDiacritics, settings.ignorePunctuation);
+            }
+            if (changed('showPhonetics', 'phoneticAccent', 'showTranslation', 'autoNextWord', 'autoNextDelayMs')) {
+                this.updateDisplaySettings({
+                    showPhonetics: settings.showPhonetics,
+                    phoneticAccent: settings.phoneticAccent,
+                    showTranslation: settings.showTranslation,
+                    autoNextWord: settings.autoNextWord,
+                    autoNextDelayMs: settings.autoNextDelayMs
+                });
+            }
+            if (changed('chapterLoop')) {
+                await this.updateChapterLoopSetting(settings.chapterLoop);
+            }
+            if (changed('mistakeThreshold', 'mistakeScope')) {
+                await this.updateMistakeSettings(settings.mistakeThreshold, settings.mistakeScope);
+            }
+            if (changed('wordsPerChapter')) {
+                this.settings.wordsPerChapter = settings.wordsPerChapter;
+                if (this.currentDictId) {
+                    await this.reloadChapterLayout();
+                }
+            }
+            // 先切换模式再切换词书，新词书直接按新模式加载记录
+            if (changed('practiceMode')) {
+                await this.updatePracticeMode(settings.practiceMode);
+            }
+            if (changed('currentWordbook')) {
+                this.settings.currentWordbook = settings.currentWordbook;
+                await this.switchStoredWordBook(this.context, settings.currentWordbook);
+            }
+        } catch (error) {
+            console.error('应用配置变化失败:', error);
+        }
+    }
+
+    // 根据练习模式准备会话：错题本模式从错题构建会话，其他模式按章节练习
+    private async prepareSession(): Promise<void> {
+        if (this.settings.practiceMode !== 'mistakes') {
+            this.reviewSession = undefined;
+            return;
+        }
+        
+        const words = await this.mistakeNotebook.buildSession(
+            this.currentDictId,
+            this.settings.mistakeScope,
+            this.settings.mistakeThreshold
+        );
+        this.reviewSession = { kind: 'mistakes', words, index: 0 };
+    }
+
     // 添加刷新词书数据的方法
     public async refreshWordBooks() {
-        // 重新初始化所有数据
+        // 重新初始化所有数据（重新扫描词书目录）
+        invalidateWordBookCache();
         this.isInitialized = false;
         this.settings = defaultSettings;
         this.currentDictRecord = undefined;
         this.currentDictId = '';
+        this.currentDictName = '';
         this.wordsData = [];
         this.currentChapterWords = [];
+        this.reviewSession = undefined;
         
         // 重新加载数据
         await this.initializeWordsData();
@@ -207,6 +412,57 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    // 同步合并其他设备的数据后重新读取练习位置和词书设置（不重新生成页面，当前单词不变时保留正在输入的内容）
+    public async refreshPracticeData(): Promise<void> {
+        if (!this.isInitialized) {
+            return;
+        }
+        
+        const previousWord = this.getCurrentWord();
+        const previousIndex = this.settings.currentWordIndex;
+        const previousWords = this.wordsData;
+        const reviewSession = this.reviewSession;
+        await this.loadWordsData();
+        // 正在进行的复习保持原来的进度
+        if (reviewSession) {
+            this.reviewSession = reviewSession;
+        }
+        
+        if (!this._view) {
+            return;
+        }
+        if (this.wordsData !== previousWords) {
+            this._view.webview.postMessage({
+                command: 'loadWords',
+                data: this.wordsData
+            });
+        }
+        const currentWord = this.getCurrentWord();
+        if (this.wordsData !== previousWords || !currentWord || currentWord.name !== previousWord?.name || this.settings.currentWordIndex !== previousIndex) {
+            await this.updateWebview();
+            return;
+        }
+        
+        // 当前单词不变时只更新章节信息和到期复习数量
+        const dueWords = this.currentDictId
+            ? await this.srsManager.getDueWords(this.currentDictId, this.settings.practiceMode)
+            : [];
+        this._view.webview.postMessage({
+            command: 'updateProgress',
+            data: {
+                chapterInfo: this.getChapterInfo(),
+                currentWordPosition: this.settings.currentWordIndex + 1,
+                chapterWordsCount: this.getCurrentChapterWords().length,
+                dueCount: dueWords.length,
+                review: this.reviewSession ? {
+                    kind: this.reviewSession.kind,
+                    position: this.reviewSession.index + 1,
+                    total: this.reviewSession.words.length
+                } : null
+            }
+        });
+    }
+
     public resolveWebviewView(
         webviewView: vscode.WebviewView,
         context: vscode.WebviewViewResolveContext,
@@ -234,11 +490,17 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         webviewView.webview.onDidReceiveMessage(
             async message => {
                 switch (message.command) {
-                    case 'inputChange':
+                    case 'wordAttempt':
+                        // 记录单词作答（每个单词出现一次记录一次）
+                        await this.recordWordAttempt(message.attempt);
                         break;
-                    case 'wordPracticeResult':
-                        // 记录单词练习结果
-                        await this.recordWordPractice(message.word, message.isCorrect);
+                    case 'checkMeaning':
+                        // 英译中模式：判定输入的释义
+                        await this.checkMeaning(message.word, message.answer);
+                        break;
+                    case 'checkSpelling':
+                        // 宽松默写：按编辑距离判定输入的单词
+                        this.checkSpelling(message.word, message.answer);
                         break;
                     case 'ready':
                         // webview加载完成后，发送数据
@@ -250,6 +512,12 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                     case 'nextWord':
                         await this.nextWord();
                         break;
+                    case 'startDueReview':
+                        await this.startDueReview();
+                        break;
+                    case 'exitReview':
+                        this.exitReview();
+                        break;
                     case 'openDataViewer':
                         // 打开数据查看器
                         const dataViewerProvider = new (await import('./dataViewerProvider')).DataViewerProvider(this.context);
@@ -262,6 +530,8 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
 
     // 新增初始化方法
     private async initializeWordsData(): Promise<void> {
+        // 等待激活时的数据迁移完成后再读取练习记录
+        await whenStorageReady();
         if (!this.isInitialized) {
             await this.loadWordsData();
             this.isInitialized = true;
@@ -271,7 +541,7 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
     // 计算章节信息
     private getChapterInfo(): ChapterInfo {
         const totalWords = this.wordsData.length;
-        const wordsPerChapter = FIXED_WORDS_PER_CHAPTER;
+        const wordsPerChapter = getBookWordsPerChapter(this.settings, this.currentDictId);
         const totalChapters = Math.ceil(totalWords / wordsPerChapter);
         const currentChapter = Math.min(this.settings.currentChapter, totalChapters);
         
@@ -288,29 +558,106 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
     private getCurrentChapterWords(): WordData[] {
         const chapterInfo = this.getChapterInfo();
         
-        // 只使用顺序模式
+        // 章节范围由词书顺序决定（按种子乱序的词书在加载时已打乱）
         const startIndex = (chapterInfo.currentChapter - 1) * chapterInfo.wordsPerChapter;
         const endIndex = Math.min(startIndex + chapterInfo.wordsPerChapter, this.wordsData.length);
         
         this.currentChapterWords = this.wordsData.slice(startIndex, endIndex);
+        
+        // 每轮章节随机：按本轮种子打乱章节内的单词顺序
+        if (this.wordOrder === 'perPass') {
+            const passSeed = this.currentDictRecord?.passSeed ?? seedFromString(this.currentDictId);
+            this.currentChapterWords = shuffleWords(this.currentChapterWords, passSeed + chapterInfo.currentChapter);
+        }
         return this.currentChapterWords;
     }
 
+    // 计算单词在当前词书中所属的章节
+    private getWordChapterNumber(word: WordData): number {
+        const index = this.wordsData.indexOf(word);
+        return index >= 0 ? Math.floor(index / this.getChapterInfo().wordsPerChapter) + 1 : this.settings.currentChapter;
+    }
+
     // 获取当前单词
     private getCurrentWord(): WordData | null {
+        if (this.reviewSession) {
+            const entry = this.reviewSession.words[this.reviewSession.index];
+            return entry ? entry.word : null;
+        }
+        
         const chapterWords = this.getCurrentChapterWords();
         const wordIndex = Math.min(this.settings.currentWordIndex, chapterWords.length - 1);
         return chapterWords[wordIndex] || null;
     }
 
+    // 获取当前单词的选择题（干扰项来自当前词书）
+    private getQuizQuestion(word: WordData): QuizQuestion {
+        if (!this.quizQuestion || this.quizQuestion.word !== word.name) {
+            this.quizQuestion = buildQuizQuestion(word, this.wordsData);
+        }
+        return this.quizQuestion;
+    }
+
+    // 英译中模式：按词书释义的各个义项判定输入并返回判定结果（作答记录由 webview 在完成作答后发送）
+    private async checkMeaning(word: string, answer: string) {
+        const currentWord = this.getCurrentWord();
+        if (!currentWord || currentWord.name !== word || typeof answer !== 'string') {
+            return;
+        }
+        
+        const matchedSense = matchSense(answer, currentWord.trans);
+        this._view?.webview.postMessage({
+            command: 'meaningResult',
+            word,
+            isCorrect: !!matchedSense,
+            matchedSense: matchedSense || ''
+        });
+    }
+
+    // 宽松默写：按编辑距离比对输入和单词，返回比对结果和得分（作答记录由 webview 在完成作答后发送）
+    private checkSpelling(word: string, answer: string) {
+        const currentWord = this.getCurrentWord();
+        if (!currentWord || currentWord.name !== word || typeof answer !== 'string') {
+            return;
+        }
+        
+        // 按规范化后需要输入的字符分别与标准拼写和各个变体比对，取得分最高的一种（得分相同时优先标准拼写）
+        // 比对结果中的位置对应该拼写判定依据中的字符
+        const answerKey = getAnswerKey(currentWord, this.settings);
+        const typed = foldAnswer(answer, this.settings);
+        let best = { variant: '', grade: gradeSpelling(getFormTarget(answerKey), typed) };
+        for (const form of answerKey.variants) {
+            const grade = gradeSpelling(getFormTarget(form), typed);
+            if (grade.score > best.grade.score) {
+                best = { variant: form.name, grade };
+            }
+        }
+        this._view?.webview.postMessage({
+            command: 'spellingResult',
+            word,
+            isCorrect: best.grade.isCorrect,
+            score: best.grade.score,
+            ops: best.grade.ops,
+            variant: best.variant
+        });
+    }
+
+    // 日期变化后刷新练习面板（到期复习数量按当天日期计算）
+    public async refreshForNewDay(): Promise<void> {
+        await this.updateWebview();
+    }
+
     // 更新webview显示
-    private updateWebview() {
+    private async updateWebview() {
         if (this._view) {
             const chapterInfo = this.getChapterInfo();
             const currentWord = this.getCurrentWord();
             const chapterWords = this.getCurrentChapterWords();
+            const dueWords = this.currentDictId
+                ? await this.srsManager.getDueWords(this.currentDictId, this.settings.practiceMode)
+                : [];
             
-            this._view.webview.postMessage({
+            this._view?.webview.postMessage({
                 command: 'updateDisplay',
                 data: {
                     currentWord,
@@ -318,16 +665,74 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                     currentWordIndex: this.settings.currentWordIndex,
                     currentWordPosition: this.settings.currentWordIndex + 1, // 1-based position
                     chapterWordsCount: chapterWords.length,
-                    settings: this.settings
+                    settings: this.settings,
+                    dueCount: dueWords.length,
+                    quiz: this.settings.practiceMode === 'quiz' && currentWord ? this.getQuizQuestion(currentWord) : null,
+                    answer: currentWord ? getAnswerKey(currentWord, this.settings) : null,
+                    review: this.reviewSession ? {
+                        kind: this.reviewSession.kind,
+                        position: this.reviewSession.index + 1,
+                        total: this.reviewSession.words.length
+                    } : null
                 }
             });
         }
     }
 
+    // 开始复习今天到期的单词
+    private async startDueReview() {
+        if (!this.currentDictId) {
+            return;
+        }
+        
+        const dueStates = await this.srsManager.getDueWords(this.currentDictId, this.settings.practiceMode);
+        const dictName = this.currentDictRecord?.dictName || '';
+        const words: SessionWord[] = [];
+        // 同源词书共享调度状态，单词按单词标识查找（拼写的大小写和空格可能不同）
+        const wordsByKey = new Map<string, WordData>();
+        for (const word of this.wordsData) {
+            const wordKey = getWordKey(word.name);
+            if (!wordsByKey.has(wordKey)) {
+                wordsByKey.set(wordKey, word);
+            }
+        }
+        for (const state of dueStates) {
+            const word = wordsByKey.get(getWordKey(state.word));
+            // 不同拼写的调度状态对应同一个单词时只复习一次
+            if (word && !words.some(entry => entry.word === word)) {
+                words.push({
+                    dictId: this.currentDictId,
+                    dictName,
+                    chapterNumber: this.getWordChapterNumber(word),
+                    word
+                });
+            }
+        }
+        
+        if (words.length === 0) {
+            vscode.window.showInformationMessage('今天没有到期需要复习的单词');
+            this.reviewSession = undefined;
+        } else {
+            this.reviewSession = { kind: 'due', words, index: 0 };
+        }
+        
+        this.updateWebview();
+    }
+
+    // 退出复习，回到章节练习
+    private exitReview() {
+        if (this.reviewSession?.kind !== 'due') {
+            return;
+        }
+        this.reviewSession = undefined;
+        this.updateWebview();
+    }
+
     // 切换章节
     private async switchChapter(chapterNumber: number) {
         const chapterInfo = this.getChapterInfo();
-        if (chapterNumber >= 1 && chapterNumber <= chapterInfo.totalChapters) {
+        if (chapterNumber >= 1 && chapterNumber <= chapterInfo.totalChapters && this.reviewSession?.kind !== 'mistakes') {
+            this.reviewSession = undefined;
             await updateSetting(this.context, 'currentChapter', chapterNumber);
             await updateSetting(this.context, 'currentWordIndex', 0);
             this.settings.currentChapter = chapterNumber;
@@ -337,13 +742,43 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             if (this.currentDictId) {
                 await this.recordManager.updateCurrentPosition(this.currentDictId, chapterNumber, 0, this.settings.practiceMode);
             }
+            await this.startChapterPass();
             
             this.updateWebview();
         }
     }
 
+    // 开始新一轮章节练习（每轮章节随机顺序时重新生成打乱种子）
+    private async startChapterPass() {
+        if (this.wordOrder !== 'perPass' || !this.currentDictId || !this.currentDictRecord) {
+            return;
+        }
+        
+        const passSeed = createSeed();
+        this.currentDictRecord.passSeed = passSeed;
+        await this.recordManager.updatePassSeed(this.currentDictId, passSeed, this.settings.practiceMode);
+    }
+
     // 下一个单词
     private async nextWord() {
+        // 复习会话：逐个消化单词，到期复习完成后回到章节练习，错题本则重新筛选错题
+        if (this.reviewSession) {
+            this.reviewSession.index++;
+            if (this.reviewSession.index >= this.reviewSession.words.length) {
+                if (this.reviewSession.kind === 'mistakes') {
+                    await this.prepareSession();
+                    if (this.reviewSession.words.length === 0) {
+                        vscode.window.showInformationMessage('错题本已清空');
+                    }
+                } else {
+                    this.reviewSession = undefined;
+                    vscode.window.showInformationMessage('今天到期的单词已复习完成');
+                }
+            }
+            this.updateWebview();
+            return;
+        }
+        
         const chapterWords = this.getCurrentChapterWords();
         const nextIndex = this.settings.currentWordIndex + 1;
         
@@ -364,16 +799,7 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             
             this.updateWebview();
         } else {
-            // 当前章节已完成，记录章节完成
-            if (this.currentDictId) {
-                await this.recordManager.recordChapterCompletion(
-                    this.currentDictId, 
-                    this.settings.currentChapter,
-                    this.settings.practiceMode
-                );
-            }
-            
-            // 检查单章循环设置
+            // 当前章节已完成，检查单章循环设置
             if (this.settings.chapterLoop) {
                 // 单章循环：回到当前章节第一个单词
                 await updateSetting(this.context, 'currentWordIndex', 0);
@@ -388,6 +814,7 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                         this.settings.practiceMode
                     );
                 }
+                await this.startChapterPass();
                 
                 this.updateWebview();
                 // 移除章节循环重新开始的长时间提示
@@ -476,6 +903,33 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             border-radius: 2px;
         }
         
+        .word-name .word-group {
+            display: inline-block;
+            white-space: nowrap;
+        }
+        
+        .word-name .letter.letter-space {
+            display: inline-block;
+            width: 0.6em;
+        }
+        
+        .word-name .letter.diff-wrong {
+            color: var(--vscode-testing-iconFailed);
+            background-color: rgba(239, 68, 68, 0.2);
+            border-radius: 2px;
+        }
+        
+        .word-name .letter.diff-missing {
+            color: var(--vscode-charts-orange);
+            text-decoration: underline;
+        }
+        
+        .word-name .letter.diff-extra {
+            color: var(--vscode-testing-iconFailed);
+            text-decoration: line-through;
+            opacity: 0.7;
+        }
+        
         .shake {
             animation: shake 0.5s ease-in-out;
         }
@@ -539,6 +993,102 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         input[type="text"]::placeholder {
             color: var(--vscode-input-placeholderForeground);
         }
+        
+        .hint-bar {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            margin-bottom: 6px;
+        }
+        
+        .hint-btn {
+            background-color: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 2px 8px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        
+        .hint-btn:hover {
+            background-color: var(--vscode-button-secondaryHoverBackground);
+        }
+        
+        .hint-text {
+            font-size: 13px;
+            font-family: var(--vscode-editor-font-family);
+            color: var(--vscode-charts-blue);
+            margin-bottom: 6px;
+        }
+        
+        .hint-text:empty {
+            display: none;
+        }
+        
+        .ime-warning {
+            font-size: 12px;
+            color: var(--vscode-editorWarning-foreground);
+            margin-bottom: 6px;
+        }
+        
+        .quiz-options {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+        }
+        
+        .quiz-option {
+            text-align: left;
+            background-color: var(--vscode-editor-widget-background);
+            color: var(--vscode-foreground);
+            border: 1px solid var(--vscode-widget-border);
+            border-radius: 4px;
+            padding: 8px 10px;
+            font-size: 13px;
+            font-family: var(--vscode-font-family);
+            line-height: 1.4;
+            cursor: pointer;
+        }
+        
+        .quiz-option:hover:not(:disabled) {
+            border-color: var(--vscode-focusBorder);
+        }
+        
+        .quiz-option:disabled {
+            cursor: default;
+        }
+        
+        .quiz-option.correct {
+            color: #9333ea;
+            background-color: rgba(147, 51, 234, 0.2);
+            border-color: #9333ea;
+        }
+        
+        .quiz-option.wrong {
+            color: var(--vscode-testing-iconFailed);
+            background-color: rgba(239, 68, 68, 0.2);
+            border-color: var(--vscode-testing-iconFailed);
+        }
+        
+        .review-btn {
+            background-color: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+            border: none;
+            padding: 2px 8px;
+            border-radius: 2px;
+            cursor: pointer;
+            font-size: 11px;
+        }
+        
+        .review-btn:hover:not(:disabled) {
+            background-color: var(--vscode-button-hoverBackground);
+        }
+        
+        .review-btn:disabled {
+            opacity: 0.5;
+            cursor: default;
+        }
     </style>
 </head>
 <body>
@@ -553,17 +1103,21 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                         <option value="1">第 1 章</option>
                     </select>
                 </div>
+
+                <div class="review-controls" style="flex: 0 0 auto;">
+                    <button class="review-btn" id="reviewBtn" onclick="toggleReview()" disabled>复习到期 (0)</button>
+                </div>
             </div>
         </div>
         
-        ${practiceMode === 'dictation' ? `
+        ${practiceMode === 'dictation' || practiceMode === 'mistakes' ? `
         <div class="word-display">
             <div class="word-content" id="wordContent">
                 <div class="word-main-info">
                 </div>
                 <div class="word-phonetics">
-                    <span>美: <span id="usPhone">/rɪˈmot/</span></span>
-                    <span>英: <span id="ukPhone">/rɪˈməʊt/</span></span>
+                    <span id="usPhoneItem">美: <span id="usPhone">/rɪˈmot/</span></span>
+                    <span id="ukPhoneItem">英: <span id="ukPhone">/rɪˈməʊt/</span></span>
                 </div>
                 <div class="word-trans" id="wordTrans">远程的 (adj.), 遥控器 (noun)</div>
             </div>
@@ -574,18 +1128,31 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                 <div class="word-main-info">
                     <div class="word-name" id="wordName"></div>
                     <div class="word-phonetics">
-                        <span>美: <span id="usPhone">/rɪˈmot/</span></span>
-                        <span>英: <span id="ukPhone">/rɪˈməʊt/</span></span>
+                        <span id="usPhoneItem">美: <span id="usPhone">/rɪˈmot/</span></span>
+                        <span id="ukPhoneItem">英: <span id="ukPhone">/rɪˈməʊt/</span></span>
                     </div>
                 </div>
-                <div class="word-trans" id="wordTrans">远程的 (adj.), 遥控器 (noun)</div>
+                <div class="word-trans" id="wordTrans"${practiceMode === 'quiz' || practiceMode === 'reverse' ? ' style="display: none;"' : ''}>远程的 (adj.), 遥控器 (noun)</div>
             </div>
         </div>
         `}
+        ${practiceMode === 'quiz' ? `
+        <div class="quiz-options" id="quizOptions"></div>
+        ` : ''}
     </div>
     
-    <div class="input-container">
-        <input type="text" id="practiceInput" placeholder="请在这里输入..." />
+    <div class="input-container"${practiceMode === 'quiz' ? ' style="display: none;"' : ''}>
+        ${practiceMode === 'dictation' || practiceMode === 'mistakes' ? `
+        <div class="hint-bar">
+            <button class="hint-btn" onclick="useHint('nextLetter')" title="显示下一个字母">💡 下一个字母</button>
+            <button class="hint-btn" onclick="useHint('length')" title="显示单词长度">📏 长度</button>
+            <button class="hint-btn" onclick="useHint('firstLetter')" title="显示首字母">🔤 首字母</button>
+            <button class="hint-btn" onclick="useHint('phonetics')" title="显示音标并朗读">🔊 音标</button>
+        </div>
+        <div class="hint-text" id="hintText"></div>
+        ` : ''}
+        <div class="ime-warning" id="imeWarning" style="display: none;">⚠️ 检测到输入法正在输入，请切换到英文输入后再练习（组字中的拼音不计入作答）</div>
+        <input type="text" id="practiceInput" placeholder="${practiceMode === 'reverse' ? '请输入中文释义，按回车提交...' : '请在这里输入...'}" />
     </div>
 
     <script>
@@ -596,6 +1163,109 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         let currentWordData = null; // 保存当前单词数据
         let practiceMode = '${practiceMode}'; // 初始化练习模式
         let wordsData = [];
+        let inReview = false; // 是否处于到期复习会话
+        let currentQuiz = null; // 选择题模式下当前单词的题目
+        let quizAnswered = false; // 当前题目是否已作答
+        let quizQuestionKey = null; // 当前题目的标识（单词位置、单词和复习进度）
+        let meaningChecking = false; // 英译中模式：是否正在判定或显示判定结果
+        let attempt = null; // 当前单词的作答（单词出现时开始，完成作答时发送给扩展）
+        let lenientDictation = ${this.settings.lenientDictation}; // 宽松默写：输入完整单词后按回车提交
+        let spellingChecking = false; // 宽松默写：是否正在判定或显示比对结果
+        // 显示设置：音标、释义、正常模式完成单词后自动跳转或按回车继续
+        let displaySettings = {
+            showPhonetics: ${this.settings.showPhonetics},
+            phoneticAccent: '${this.settings.phoneticAccent}',
+            showTranslation: ${this.settings.showTranslation},
+            autoNextWord: ${this.settings.autoNextWord},
+            autoNextDelayMs: ${this.settings.autoNextDelayMs}
+        };
+        let completedWord = null; // 正常模式：已完成、等待跳转的单词
+        let composing = false; // 输入法是否正在组字
+        let compositionStartValue = ''; // 组字开始前输入框中的内容
+        // 输入法上屏的中日韩文字和全角字符
+        const IME_TEXT_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+        let currentAnswer = null; // 当前单词的判定依据（显示的字母和规范化后需要输入的字符）
+        let matchOptions = { ignoreDiacritics: ${this.settings.ignoreDiacritics}, ignorePunctuation: ${this.settings.ignorePunctuation} };
+        
+        // 默写模式和错题本都只显示翻译，按默写方式校验
+        function isDictationLike() {
+            return practiceMode === 'dictation' || practiceMode === 'mistakes';
+        }
+        
+        // 宽松默写只用于默写模式和错题本
+        function isLenientDictation() {
+            return lenientDictation && isDictationLike();
+        }
+        
+        // 选择题和英译中模式只显示单词和音标，释义在作答后显示
+        function isRecognitionMode() {
+            return practiceMode === 'quiz' || practiceMode === 'reverse';
+        }
+        
+        // 单词出现时开始新的作答（同一单词刷新显示时继续当前作答）
+        function startAttempt(word) {
+            if (attempt && attempt.word === word.name) return;
+            attempt = {
+                word: word.name,
+                startTime: Date.now(),
+                firstKeyTime: 0,
+                keystrokes: 0,
+                mistakes: 0,
+                letterErrors: [],
+                score: undefined,
+                hints: [],
+                revealedLetters: 0,    // 提示显示的字母数（从开头算起）
+                lengthShown: false,    // 是否已提示单词长度
+                phoneticsShown: false  // 是否已提示音标
+            };
+        }
+        
+        // 记录一次按键（第一次按键时记录犹豫时间）
+        function recordKeystroke() {
+            if (!attempt) return;
+            if (attempt.keystrokes === 0) {
+                attempt.firstKeyTime = Date.now();
+            }
+            attempt.keystrokes++;
+        }
+        
+        // 记录一次出错
+        function recordMistake() {
+            if (attempt) {
+                attempt.mistakes++;
+            }
+        }
+        
+        // 记录输错的字母（期望的字母、实际输入的字母、在单词中的位置）
+        function recordLetterError(expected, typed, position) {
+            if (attempt && typed) {
+                attempt.letterErrors.push({ expected: expected || '', typed: typed, position: position });
+            }
+        }
+        
+        // 完成作答：发送作答记录（按键次数、出错次数、是否一次通过、用时、输入的变体拼写）
+        function finishAttempt(word, variant) {
+            if (!attempt || attempt.word !== word.name) {
+                startAttempt(word);
+            }
+            const now = Date.now();
+            vscode.postMessage({
+                command: 'wordAttempt',
+                attempt: {
+                    word: word.name,
+                    keystrokes: attempt.keystrokes,
+                    mistakes: attempt.mistakes,
+                    firstTryClean: attempt.mistakes === 0,
+                    durationMs: now - attempt.startTime,
+                    firstKeyMs: (attempt.firstKeyTime || now) - attempt.startTime,
+                    letterErrors: attempt.letterErrors,
+                    score: attempt.score,
+                    variant: variant || undefined,
+                    hints: attempt.hints
+                }
+            });
+            attempt = null;
+        }
         
         // 监听来自扩展的消息
         window.addEventListener('message', event => {
@@ -605,32 +1275,85 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                     if (message.data && message.data.length > 0) {
                         wordsData = message.data;
                         currentWordIndex = 0;
+                        currentAnswer = null;
                         currentWordData = wordsData[0]; // 设置初始单词数据
                         updateWordDisplay();
                     }
                     break;
                 case 'updateDisplay':
                     if (message.data) {
-                        const { currentWord, chapterInfo, currentWordIndex: newIndex, currentWordPosition, chapterWordsCount, settings } = message.data;
+                        const { currentWord, chapterInfo, currentWordIndex: newIndex, currentWordPosition, chapterWordsCount, settings, dueCount, review, quiz, answer } = message.data;
+                        
+                        // 更新复习状态
+                        updateReviewDisplay(review, dueCount || 0);
+                        
+                        if (!currentWord && review && review.total === 0) {
+                            showEmptySession(review);
+                        }
+                        
                         if (currentWord) {
                             // 更新当前单词索引和当前单词数据
                             currentWordIndex = newIndex || 0;
                             currentWordData = currentWord; // 保存当前单词数据
+                            currentAnswer = answer || null;
                             
                             // 更新练习模式（如果有提供）
                             if (settings && settings.practiceMode) {
                                 practiceMode = settings.practiceMode;
 
                             }
+                            if (settings) {
+                                displaySettings = {
+                                    showPhonetics: settings.showPhonetics !== false,
+                                    phoneticAccent: settings.phoneticAccent || 'both',
+                                    showTranslation: settings.showTranslation !== false,
+                                    autoNextWord: settings.autoNextWord !== false,
+                                    autoNextDelayMs: settings.autoNextDelayMs || 0
+                                };
+                                lenientDictation = !!settings.lenientDictation;
+                                matchOptions = { ignoreDiacritics: !!settings.ignoreDiacritics, ignorePunctuation: !!settings.ignorePunctuation };
+                                updateInputPlaceholder();
+                            }
                             
                             // 更新章节信息
-                            updateChapterDisplay(chapterInfo, currentWordPosition, chapterWordsCount);
+                            if (review) {
+                                updateReviewProgress(review);
+                            } else {
+                                updateChapterDisplay(chapterInfo, currentWordPosition, chapterWordsCount);
+                            }
                             
                             // 更新单词显示
                             updateCurrentWordDisplay(currentWord);
+                            
+                            // 选择题模式：显示候选释义
+                            if (practiceMode === 'quiz') {
+                                renderQuizOptions(quiz, [currentWordIndex, currentWord.name, review ? review.kind + review.position : ''].join('|'));
+                            }
+                        }
+                    }
+                    break;
+                case 'updateProgress':
+                    // 同步数据后更新进度（不清空正在输入的内容）
+                    if (message.data) {
+                        const { chapterInfo, currentWordPosition, chapterWordsCount, dueCount, review } = message.data;
+                        updateReviewDisplay(review, dueCount || 0);
+                        if (review) {
+                            updateReviewProgress(review);
+                        } else {
+                            updateChapterDisplay(chapterInfo, currentWordPosition, chapterWordsCount);
                         }
                     }
                     break;
+                case 'spellingResult':
+                    if (currentWordData && message.word === currentWordData.name) {
+                        showSpellingResult(currentWordData, message);
+                    }
+                    break;
+                case 'meaningResult':
+                    if (currentWordData && message.word === currentWordData.name) {
+                        showMeaningResult(message.isCorrect, message.matchedSense);
+                    }
+                    break;
             }
         });
         
@@ -664,17 +1387,61 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             }
         }
         
-        function updateCurrentWordDisplay(word) {
-            if (!word) return;
+        function updateReviewDisplay(review, dueCount) {
+            inReview = !!review;
             
-            // 根据练习模式动态更新显示
-            if (practiceMode === 'dictation') {
-                // 默写模式：隐藏单词名称和音标，只显示翻译
-                const wordNameElement = document.getElementById('wordName');
-                if (wordNameElement) {
-                    wordNameElement.style.display = 'none';
-                }
-                
+            const reviewBtn = document.getElementById('reviewBtn');
+            if (reviewBtn) {
+                // 错题本模式下不提供到期复习入口
+                reviewBtn.style.display = practiceMode === 'mistakes' ? 'none' : '';
+                reviewBtn.textContent = inReview ? '退出复习' : '复习到期 (' + dueCount + ')';
+                reviewBtn.disabled = !inReview && dueCount === 0;
+            }
+            
+            // 复习期间禁用章节切换
+            const chapterSelect = document.getElementById('chapterSelect');
+            if (chapterSelect) {
+                chapterSelect.disabled = inReview;
+            }
+        }
+        
+        function updateReviewProgress(review) {
+            const chapterDisplayDiv = document.querySelector('#chapterInfo .chapter-display');
+            if (chapterDisplayDiv) {
+                const title = review.kind === 'mistakes' ? '错题本' : '到期复习';
+                chapterDisplayDiv.textContent = title + ' | 单词: ' + review.position + '/' + review.total;
+            }
+        }
+        
+        function showEmptySession(review) {
+            currentWordData = null;
+            updateReviewProgress({ kind: review.kind, position: 0, total: 0 });
+            document.getElementById('wordTrans').textContent = '错题本中暂无单词，练习中出错的单词会出现在这里';
+            const wordPhonetics = document.querySelector('.word-phonetics');
+            if (wordPhonetics) {
+                wordPhonetics.style.display = 'none';
+            }
+        }
+        
+        function toggleReview() {
+            vscode.postMessage({ command: inReview ? 'exitReview' : 'startDueReview' });
+        }
+        
+        function updateCurrentWordDisplay(word) {
+            if (!word) return;
+            startAttempt(word);
+            if (completedWord !== word.name) {
+                completedWord = null;
+            }
+            
+            // 根据练习模式动态更新显示
+            if (isDictationLike()) {
+                // 默写模式：隐藏单词名称和音标，只显示翻译
+                const wordNameElement = document.getElementById('wordName');
+                if (wordNameElement) {
+                    wordNameElement.style.display = 'none';
+                }
+                
                 // 隐藏音标
                 const wordPhonetics = document.querySelector('.word-phonetics');
                 if (wordPhonetics) {
@@ -691,20 +1458,11 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                 const wordNameElement = document.getElementById('wordName');
                 if (wordNameElement) {
                     wordNameElement.style.display = 'block';
-                    wordNameElement.innerHTML = '';
-                    for (let i = 0; i < word.name.length; i++) {
-                        const span = document.createElement('span');
-                        span.className = 'letter';
-                        span.textContent = word.name[i];
-                        wordNameElement.appendChild(span);
-                    }
+                    renderLetters(wordNameElement, word);
                 }
                 
-                // 显示音标
-                const wordPhonetics = document.querySelector('.word-phonetics');
-                if (wordPhonetics) {
-                    wordPhonetics.style.display = 'flex';
-                }
+                // 显示音标（按显示设置）
+                setPhoneticsVisible(true);
                 
                 // 移除默写模式提示
                 const dictationText = document.querySelector('.dictation-mode-text');
@@ -714,17 +1472,138 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             }
             
             // 更新音标和翻译（只在正常模式下显示音标）
-            if (practiceMode === 'normal') {
+            if (!isDictationLike()) {
                 document.getElementById('usPhone').textContent = word.usphone || '';
                 document.getElementById('ukPhone').textContent = word.ukphone || '';
             }
-            document.getElementById('wordTrans').textContent = word.trans ? word.trans.join(', ') : '';
+            const wordTrans = document.getElementById('wordTrans');
+            wordTrans.textContent = word.trans ? word.trans.join(', ') : '';
+            wordTrans.style.display = isRecognitionMode() || (practiceMode === 'normal' && !displaySettings.showTranslation) ? 'none' : '';
+            wordTrans.style.color = '';
+            meaningChecking = false;
+            spellingChecking = false;
             
             // 清空输入框
             input.value = '';
-            if (practiceMode === 'normal') {
+            if (!isDictationLike()) {
                 updateHighlight('');
             }
+            
+            // 恢复当前作答使用过的提示
+            updateHintDisplay();
+        }
+        
+        // 显示选择题的候选释义
+        function renderQuizOptions(quiz, questionKey) {
+            const sameQuestion = !!quiz && questionKey === quizQuestionKey;
+            currentQuiz = quiz;
+            quizQuestionKey = quiz ? questionKey : null;
+            
+            const wordTrans = document.getElementById('wordTrans');
+            if (wordTrans) {
+                wordTrans.style.display = 'none';
+            }
+            
+            // 同一题目重复刷新（如修改显示设置）时保留选项和作答状态，避免同一题作答两次
+            if (sameQuestion) return;
+            quizAnswered = false;
+            
+            const quizOptions = document.getElementById('quizOptions');
+            if (!quizOptions) return;
+            quizOptions.innerHTML = '';
+            if (!quiz) return;
+            
+            quiz.options.forEach((option, index) => {
+                const button = document.createElement('button');
+                button.className = 'quiz-option';
+                button.textContent = (index + 1) + '. ' + option;
+                button.addEventListener('click', () => selectQuizOption(index));
+                quizOptions.appendChild(button);
+            });
+        }
+        
+        // 选择释义：记录结果并标出正确答案，稍后跳转到下一个单词
+        function selectQuizOption(index) {
+            const word = currentWordData;
+            if (!currentQuiz || !word || quizAnswered || index >= currentQuiz.options.length) return;
+            quizAnswered = true;
+            
+            const isCorrect = index === currentQuiz.answerIndex;
+            recordKeystroke();
+            if (!isCorrect) {
+                recordMistake();
+            }
+            finishAttempt(word);
+            
+            const buttons = document.querySelectorAll('.quiz-option');
+            buttons.forEach((button, buttonIndex) => {
+                button.disabled = true;
+                if (buttonIndex === currentQuiz.answerIndex) {
+                    button.classList.add('correct');
+                } else if (buttonIndex === index) {
+                    button.classList.add('wrong');
+                }
+            });
+            if (!isCorrect) {
+                document.querySelector('.word-display').classList.add('shake');
+            }
+            
+            // 正确0.5秒，错误1.5秒后跳转
+            setTimeout(() => {
+                document.querySelector('.word-display').classList.remove('shake');
+                // 跳转后即使还是同一个单词（如单章循环的章节只有一个单词）也是新的题目
+                quizQuestionKey = null;
+                vscode.postMessage({
+                    command: 'nextWord'
+                });
+            }, isCorrect ? 500 : 1500);
+        }
+        
+        // 英译中模式：提交输入的释义，由扩展按义项判定
+        function submitMeaning() {
+            const word = currentWordData;
+            const answer = input.value.trim();
+            if (!word || !answer || meaningChecking) return;
+            meaningChecking = true;
+            
+            vscode.postMessage({
+                command: 'checkMeaning',
+                word: word.name,
+                answer: answer
+            });
+        }
+        
+        // 英译中模式：显示释义和判定结果，正确时跳转，错误时稍后隐藏释义重新作答
+        function showMeaningResult(isCorrect, matchedSense) {
+            const wordTrans = document.getElementById('wordTrans');
+            const wordDisplay = document.querySelector('.word-display');
+            wordTrans.style.display = '';
+            
+            if (isCorrect) {
+                finishAttempt(currentWordData);
+                wordTrans.style.color = '#9333ea';
+                wordTrans.textContent = '✓ ' + matchedSense + '  |  ' + (currentWordData.trans || []).join(', ');
+            } else {
+                recordMistake();
+                wordTrans.style.color = 'var(--vscode-testing-iconFailed)';
+                wordDisplay.classList.add('shake');
+            }
+            
+            // 正确0.5秒，错误2秒
+            setTimeout(() => {
+                if (isCorrect) {
+                    vscode.postMessage({
+                        command: 'nextWord'
+                    });
+                } else {
+                    wordDisplay.classList.remove('shake');
+                    wordTrans.style.display = 'none';
+                    wordTrans.style.color = '';
+                    input.value = '';
+                    meaningChecking = false;
+                    input.focus();
+                }
+            }, isCorrect ? 500 : 2000);
         }
         
         function switchChapter(chapterNumber) {
@@ -741,13 +1620,7 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             
             // 创建字母分割显示
             const wordNameElement = document.getElementById('wordName');
-            wordNameElement.innerHTML = '';
-            for (let i = 0; i < word.name.length; i++) {
-                const span = document.createElement('span');
-                span.className = 'letter';
-                span.textContent = word.name[i];
-                wordNameElement.appendChild(span);
-            }
+            renderLetters(wordNameElement, word);
             
             document.getElementById('usPhone').textContent = word.usphone || '';
             document.getElementById('ukPhone').textContent = word.ukphone || '';
@@ -758,22 +1631,87 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             updateHighlight('');
         }
         
+        // 获取单词的判定依据（扩展未发送时按原样逐字比对）
+        function getAnswer(word) {
+            if (currentAnswer && word === currentWordData) {
+                return currentAnswer;
+            }
+            const chars = Array.from(word.name);
+            return { name: word.name, chars: chars, units: chars.map((char, index) => ({ index: index, char: char.toLowerCase() })), variants: [] };
+        }
+        
+        // 需要输入的字符（规范化后）
+        function getFormTarget(form) {
+            return form.units.map(unit => unit.char).join('');
+        }
+        
+        // 在单词后显示说明文字（变体拼写、得分等）
+        function appendWordNote(element, text) {
+            const note = document.createElement('span');
+            note.style.marginLeft = '10px';
+            note.style.fontSize = '12px';
+            note.style.fontWeight = 'normal';
+            note.style.color = 'var(--vscode-descriptionForeground)';
+            note.textContent = text;
+            element.appendChild(note);
+        }
+        
+        // 规范化输入：foldChar 和 foldAnswer 由扩展的 answerMatching 生成，与扩展中的判定规则相同
+        ${getFoldingScript()}
+        
+        function foldInput(text) {
+            return foldAnswer(text, matchOptions);
+        }
+        
+        // 显示单词的字母：短语按单词分组，组内不换行，单词之间显示空隙
+        function renderLetters(element, word) {
+            element.innerHTML = '';
+            let group = null;
+            getAnswer(word).chars.forEach(char => {
+                const span = document.createElement('span');
+                span.className = 'letter';
+                span.textContent = char;
+                if (/\\s/.test(char)) {
+                    span.classList.add('letter-space');
+                    element.appendChild(span);
+                    group = null;
+                    return;
+                }
+                if (!group) {
+                    group = document.createElement('span');
+                    group.className = 'word-group';
+                    element.appendChild(group);
+                }
+                group.appendChild(span);
+            });
+        }
+        
+        // 输入与单词第一个不一致的位置（规范化后比较）
+        function findMismatch(typed, target) {
+            let index = 0;
+            while (index < typed.length && index < target.length && typed[index] === target[index]) {
+                index++;
+            }
+            return index;
+        }
+        
         function updateHighlight(inputText) {
             // 使用当前单词数据而不是从数组中获取
             const word = currentWordData;
             if (!word) return;
             
-            const letters = document.querySelectorAll('.letter');
-            const inputLower = inputText.toLowerCase();
-            const wordLower = word.name.toLowerCase();
+            const letters = document.querySelectorAll('.word-name .letter');
+            const answer = getAnswer(word);
+            const target = getFormTarget(answer);
+            const matched = findMismatch(foldInput(inputText), target);
+            // 已正确输入的字母（无需输入的标点和空格随下一个字母一起高亮）
+            const highlightEnd = matched === 0 ? 0 : (matched < answer.units.length ? answer.units[matched].index : answer.chars.length);
             
             letters.forEach((letter, index) => {
                 letter.classList.remove('correct', 'current');
                 
-                if (index < inputLower.length) {
-                    if (inputLower[index] === wordLower[index]) {
-                        letter.classList.add('correct');
-                    }
+                if (index < highlightEnd) {
+                    letter.classList.add('correct');
                 }
             });
         }
@@ -783,50 +1721,57 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             const word = currentWordData;
             if (!word) return;
             
-            const inputLower = inputText.toLowerCase();
-            const wordLower = word.name.toLowerCase();
+            const answer = getAnswer(word);
+            const typed = foldInput(inputText);
+            
+            // 标准拼写和各个变体拼写都可以输入
+            const forms = [answer].concat(answer.variants);
+            const matchedForm = forms.find(form => getFormTarget(form) === typed);
             
             // 检查是否完全匹配
-            if (inputLower === wordLower) {
-                // 先记录练习结果，然后再进行后续操作
-                vscode.postMessage({
-                    command: 'wordPracticeResult',
-                    word: word.name,
-                    isCorrect: true
-                });
+            if (matchedForm) {
+                const variant = matchedForm === answer ? '' : matchedForm.name;
+                // 先记录作答，然后再进行后续操作
+                finishAttempt(word, variant);
                 
                 // 等待一小段时间确保记录先处理，然后再进行后续操作
                 setTimeout(() => {
-                    if (practiceMode === 'dictation') {
-                        // 默写模式：显示正确的单词，然后跳转
-                        showWordInDictationMode(word, true);
+                    if (isDictationLike()) {
+                        // 默写模式：显示正确的单词（标准拼写），然后跳转
+                        showWordInDictationMode(word, true, variant);
                     } else {
-                        // 正常模式：直接跳转到下一个单词
-                        vscode.postMessage({
-                            command: 'nextWord'
-                        });
+                        // 正常模式：按显示设置自动跳转或等待按回车继续
+                        completeWord(word);
                     }
                 }, 10); // 10ms延迟，确保顺序执行
                 
                 return true;
             }
             
+            // 输入与单词第一个不一致的位置（超出单词长度时为多输入的字母），按最接近的拼写计算（相同时优先标准拼写）
+            let closest = answer;
+            let mismatch = findMismatch(typed, getFormTarget(answer));
+            answer.variants.forEach(form => {
+                const formMismatch = findMismatch(typed, getFormTarget(form));
+                if (formMismatch > mismatch) {
+                    closest = form;
+                    mismatch = formMismatch;
+                }
+            });
+            const target = getFormTarget(closest);
+            const expectedChar = mismatch < target.length ? target[mismatch] : '';
+            const position = mismatch < closest.units.length ? closest.units[mismatch].index : closest.chars.length;
+            
             // 对于正常模式，检查字母逐个匹配
-            if (practiceMode === 'normal' && inputLower.length > 0) {
-                const currentChar = inputLower[inputLower.length - 1];
-                const expectedChar = wordLower[inputLower.length - 1];
-                
-                if (currentChar !== expectedChar || inputLower.length > wordLower.length) {
+            if (!isDictationLike() && typed.length > 0) {
+                if (mismatch < typed.length) {
                     // 错误，显示错误动效并清空输入
                     const wordDisplay = document.querySelector('.word-display');
                     wordDisplay.classList.add('shake');
                     
-                    // 记录错误结果
-                    vscode.postMessage({
-                        command: 'wordPracticeResult',
-                        word: word.name,
-                        isCorrect: false
-                    });
+                    // 记录出错和输错的字母（完成作答时一并记录）
+                    recordMistake();
+                    recordLetterError(expectedChar, typed[mismatch], position);
                     
                     setTimeout(() => {
                         wordDisplay.classList.remove('shake');
@@ -837,43 +1782,265 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                 }
             }
             
-            // 对于默写模式的错误处理
-            if (practiceMode === 'dictation') {
-                // 检查每个字符是否正确
-                for (let i = 0; i < inputLower.length; i++) {
-                    if (inputLower[i] !== wordLower[i]) {
-                        // 输入错误，显示单词并提示错误
-                        showWordInDictationMode(word, false);
-                        
-                        // 记录错误结果
-                        vscode.postMessage({
-                            command: 'wordPracticeResult',
-                            word: word.name,
-                            isCorrect: false
-                        });
-                        return false;
+            // 对于默写模式的错误处理：输入错误或超出单词长度时显示单词并提示错误
+            if (isDictationLike() && mismatch < typed.length) {
+                showWordInDictationMode(word, false);
+                
+                // 记录出错和输错（或多输入）的字母（完成作答时一并记录）
+                recordMistake();
+                recordLetterError(expectedChar, typed[mismatch], position);
+                return false;
+            }
+            
+            return null; // 继续输入
+        }
+        
+        // 使用提示（只用于默写模式和错题本），记录到当前作答中，完成作答时会降低评分
+        function useHint(hint) {
+            const word = currentWordData;
+            if (!word || !isDictationLike() || spellingChecking) return;
+            startAttempt(word);
+            
+            const answer = getAnswer(word);
+            if (hint === 'nextLetter') {
+                // 在已正确输入的部分之后再显示一个字母
+                const matched = findMismatch(foldInput(input.value), getFormTarget(answer));
+                if (attempt.revealedLetters >= answer.units.length) return;
+                attempt.revealedLetters = Math.min(answer.units.length, Math.max(attempt.revealedLetters, matched) + 1);
+            } else if (hint === 'firstLetter') {
+                if (attempt.revealedLetters > 0) return;
+                attempt.revealedLetters = 1;
+            } else if (hint === 'length') {
+                if (attempt.lengthShown) return;
+                attempt.lengthShown = true;
+            } else if (hint === 'phonetics') {
+                attempt.phoneticsShown = true;
+                speakWord(word);
+            }
+            attempt.hints.push(hint);
+            updateHintDisplay();
+            input.focus();
+        }
+        
+        // 朗读单词（webview 不支持语音合成时只显示音标）
+        function speakWord(word) {
+            if (!('speechSynthesis' in window)) return;
+            try {
+                const utterance = new SpeechSynthesisUtterance(word.name);
+                utterance.lang = 'en-US';
+                window.speechSynthesis.cancel();
+                window.speechSynthesis.speak(utterance);
+            } catch (error) {
+                console.error('朗读单词失败:', error);
+            }
+        }
+        
+        // 按当前作答使用过的提示显示单词轮廓和音标（未提示的字母显示为下划线）
+        function updateHintDisplay() {
+            const hintText = document.getElementById('hintText');
+            if (!hintText) return;
+            const word = currentWordData;
+            if (!word || !attempt || attempt.word !== word.name || !isDictationLike()) {
+                hintText.textContent = '';
+                return;
+            }
+            
+            if (attempt.revealedLetters > 0 || attempt.lengthShown) {
+                const answer = getAnswer(word);
+                // 显示的字母位置 -> 该字母对应的第一个需要输入的字符序号
+                const unitIndexes = {};
+                answer.units.forEach((unit, unitIndex) => {
+                    if (unitIndexes[unit.index] === undefined) {
+                        unitIndexes[unit.index] = unitIndex;
+                    }
+                });
+                const lastIndex = attempt.lengthShown ? answer.chars.length : (attempt.revealedLetters < answer.units.length ? answer.units[attempt.revealedLetters].index : answer.chars.length);
+                let pattern = '';
+                for (let index = 0; index < lastIndex; index++) {
+                    const unitIndex = unitIndexes[index];
+                    if (unitIndex === undefined || unitIndex < attempt.revealedLetters || /\\s/.test(answer.chars[index])) {
+                        pattern += answer.chars[index];
+                    } else {
+                        pattern += '_';
                     }
+                    pattern += ' ';
                 }
-                
-                // 如果输入超出了单词长度
-                if (inputLower.length > wordLower.length) {
-                    showWordInDictationMode(word, false);
-                    
-                    // 记录错误结果
-                    vscode.postMessage({
-                            command: 'wordPracticeResult',
-                            word: word.name,
-                            isCorrect: false
-                        });
-                    return false;
+                hintText.textContent = '提示：' + pattern.trim() + (attempt.lengthShown ? '（' + answer.units.filter(unit => unit.char !== ' ').length + ' 个字母）' : ' …');
+            } else {
+                hintText.textContent = '';
+            }
+            
+            if (attempt.phoneticsShown) {
+                document.getElementById('usPhone').textContent = word.usphone || '';
+                document.getElementById('ukPhone').textContent = word.ukphone || '';
+                setPhoneticsVisible(true, true);
+            }
+        }
+        
+        // 按显示设置显示或隐藏音标（force：使用音标提示时忽略显示音标开关）
+        function setPhoneticsVisible(visible, force) {
+            const wordPhonetics = document.querySelector('.word-phonetics');
+            if (!wordPhonetics) return;
+            wordPhonetics.style.display = visible && (force || displaySettings.showPhonetics) ? 'flex' : 'none';
+            document.getElementById('usPhoneItem').style.display = displaySettings.phoneticAccent === 'uk' ? 'none' : '';
+            document.getElementById('ukPhoneItem').style.display = displaySettings.phoneticAccent === 'us' ? 'none' : '';
+        }
+        
+        // 显示或隐藏输入法提示
+        function showImeWarning(visible) {
+            document.getElementById('imeWarning').style.display = visible ? 'block' : 'none';
+        }
+        
+        // 正常模式完成单词：自动跳转（可设置延迟），或等待按回车继续
+        function completeWord(word) {
+            completedWord = word.name;
+            if (displaySettings.autoNextWord) {
+                setTimeout(() => {
+                    if (completedWord === word.name) {
+                        goToNextWord();
+                    }
+                }, displaySettings.autoNextDelayMs);
+            } else {
+                updateInputPlaceholder();
+            }
+        }
+        
+        function goToNextWord() {
+            completedWord = null;
+            updateInputPlaceholder();
+            vscode.postMessage({
+                command: 'nextWord'
+            });
+        }
+        
+        // 输入框提示文字
+        function updateInputPlaceholder() {
+            if (completedWord && !displaySettings.autoNextWord) {
+                input.placeholder = '按回车继续下一个单词...';
+            } else if (practiceMode === 'reverse') {
+                input.placeholder = '请输入中文释义，按回车提交...';
+            } else if (isLenientDictation()) {
+                input.placeholder = '请输入完整单词，按回车提交...';
+            } else {
+                input.placeholder = '请在这里输入...';
+            }
+        }
+        
+        // 宽松默写：提交输入的单词，由扩展按编辑距离判定
+        function submitSpelling() {
+            const word = currentWordData;
+            const answer = input.value.trim();
+            if (!word || !answer || spellingChecking) return;
+            spellingChecking = true;
+            
+            vscode.postMessage({
+                command: 'checkSpelling',
+                word: word.name,
+                answer: answer
+            });
+        }
+        
+        // 宽松默写：正确时显示单词并跳转，错误时标出多输入、漏输入和输错的字母，稍后隐藏单词重新作答
+        function showSpellingResult(word, result) {
+            // 得分按第一次提交计算
+            if (attempt && attempt.score === undefined) {
+                attempt.score = result.score;
+            }
+            
+            if (result.isCorrect) {
+                finishAttempt(word, result.variant);
+                showWordInDictationMode(word, true, result.variant);
+                return;
+            }
+            
+            // 比对结果中的位置对应最接近的拼写中需要输入的字符，换算为显示的字母位置
+            const canonical = getAnswer(word);
+            const answer = (result.variant && canonical.variants.find(form => form.name === result.variant)) || canonical;
+            const displayIndex = position => position < answer.units.length ? answer.units[position].index : answer.chars.length;
+            
+            // 记录出错和输错、多输入的字母（完成作答时一并记录）
+            recordMistake();
+            result.ops.forEach(op => {
+                if (op.type === 'substitute' || op.type === 'insert') {
+                    recordLetterError(op.expected, op.typed, displayIndex(op.position));
                 }
+            });
+            
+            const wordMainInfo = document.querySelector('.word-main-info');
+            const wordDisplay = document.querySelector('.word-display');
+            let wordNameElement = document.getElementById('wordName');
+            if (!wordNameElement) {
+                wordNameElement = document.createElement('div');
+                wordNameElement.id = 'wordName';
+                wordNameElement.className = 'word-name';
+                wordMainInfo.insertBefore(wordNameElement, wordMainInfo.firstChild);
             }
             
-            return null; // 继续输入
+            // 逐个字母显示比对结果：输错的显示正确字母，漏输入的加下划线，多输入的加删除线
+            wordNameElement.style.display = 'block';
+            wordNameElement.innerHTML = '';
+            let nextIndex = 0;
+            // 显示无需输入的标点和空格
+            const appendLettersUntil = end => {
+                for (; nextIndex < end; nextIndex++) {
+                    const span = document.createElement('span');
+                    span.className = 'letter';
+                    span.textContent = answer.chars[nextIndex];
+                    wordNameElement.appendChild(span);
+                }
+            };
+            result.ops.forEach(op => {
+                const span = document.createElement('span');
+                span.className = 'letter';
+                if (op.type === 'insert') {
+                    span.classList.add('diff-extra');
+                    span.textContent = op.typed;
+                    span.title = '多输入了 ' + op.typed;
+                    wordNameElement.appendChild(span);
+                    return;
+                }
+                
+                const index = displayIndex(op.position);
+                if (index < nextIndex) return; // 同一字母规范化为多个字符时只显示一次
+                appendLettersUntil(index);
+                span.textContent = answer.chars[index];
+                nextIndex = index + 1;
+                if (op.type === 'substitute') {
+                    span.classList.add('diff-wrong');
+                    span.title = '输入了 ' + op.typed;
+                } else if (op.type === 'delete') {
+                    span.classList.add('diff-missing');
+                    span.title = '漏输入';
+                }
+                wordNameElement.appendChild(span);
+            });
+            appendLettersUntil(answer.chars.length);
+            
+            appendWordNote(wordNameElement, Math.round(result.score * 100) + '分' + (answer !== canonical ? '（标准拼写：' + canonical.name + '）' : ''));
+            
+            const wordPhonetics = document.querySelector('.word-phonetics');
+            setPhoneticsVisible(true);
+            document.getElementById('usPhone').textContent = word.usphone || '';
+            document.getElementById('ukPhone').textContent = word.ukphone || '';
+            wordDisplay.classList.add('shake');
+            
+            // 显示3秒后隐藏单词，重新作答
+            setTimeout(() => {
+                wordNameElement.style.display = 'none';
+                wordNameElement.innerHTML = '';
+                wordDisplay.classList.remove('shake');
+                if (wordPhonetics) {
+                    wordPhonetics.style.display = 'none';
+                }
+                input.value = '';
+                spellingChecking = false;
+                updateHintDisplay();
+                input.focus();
+            }, 3000);
         }
         
         // 在默写模式下显示单词的函数
-        function showWordInDictationMode(word, isCorrect) {
+        function showWordInDictationMode(word, isCorrect, variant) {
             const wordMainInfo = document.querySelector('.word-main-info');
             const wordDisplay = document.querySelector('.word-display');
             
@@ -896,22 +2063,19 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
             wordNameElement.style.display = 'block';
             wordNameElement.innerHTML = '';
             
-            // 显示音标（显示答案时）
-            const wordPhonetics = document.querySelector('.word-phonetics');
-            if (wordPhonetics) {
-                wordPhonetics.style.display = 'flex';
-            }
+            // 显示音标（显示答案时，按显示设置）
+            setPhoneticsVisible(true);
             
             // 更新音标内容
             document.getElementById('usPhone').textContent = word.usphone || '';
             document.getElementById('ukPhone').textContent = word.ukphone || '';
             
             // 创建字母分割显示
-            for (let i = 0; i < word.name.length; i++) {
-                const span = document.createElement('span');
-                span.className = 'letter';
-                span.textContent = word.name[i];
-                wordNameElement.appendChild(span);
+            renderLetters(wordNameElement, word);
+            
+            // 输入变体拼写时显示标准拼写，并注明输入的拼写
+            if (variant) {
+                appendWordNote(wordNameElement, '（你的拼写：' + variant + '）');
             }
             
             // 根据正确性添加样式
@@ -944,11 +2108,12 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
                     wordNameElement.style.backgroundColor = '';
                     wordDisplay.classList.remove('shake');
                     
-                    // 隐藏音标（恢复默写模式）
+                    // 隐藏音标（恢复默写模式，已提示音标时保持显示）
                     const wordPhonetics = document.querySelector('.word-phonetics');
                     if (wordPhonetics) {
                         wordPhonetics.style.display = 'none';
                     }
+                    updateHintDisplay();
                     
                     // 重新聚焦输入框
                     input.focus();
@@ -961,66 +2126,175 @@ export class PracticeWebviewProvider implements vscode.WebviewViewProvider {
         
         // 添加键盘事件监听
         document.addEventListener('keydown', function(event) {
+            // 输入法正在组字时，回车、数字键等用于选择候选词，不作为练习操作
+            if (event.isComposing || event.keyCode === 229) {
+                if (event.target === input && !isRecognitionMode()) {
+                    showImeWarning(true);
+                }
+                return;
+            }
+            
+            // 正常模式：已完成的单词按回车跳转到下一个单词
+            if (completedWord && event.key === 'Enter') {
+                event.preventDefault();
+                goToNextWord();
+                return;
+            }
+            
             if (event.key === 'Escape') {
                 event.preventDefault();
                 input.value = '';
                 updateHighlight('');
             }
+            
+            // 英译中模式：回车提交释义
+            if (practiceMode === 'reverse' && event.key === 'Enter' && event.target === input) {
+                event.preventDefault();
+                submitMeaning();
+            }
+            
+            // 宽松默写：回车提交单词
+            if (isLenientDictation() && event.key === 'Enter' && event.target === input) {
+                event.preventDefault();
+                submitSpelling();
+            }
+            
+            // 选择题模式：数字键 1-4 选择释义
+            if (practiceMode === 'quiz' && /^[1-9]$/.test(event.key)) {
+                event.preventDefault();
+                selectQuizOption(parseInt(event.key) - 1);
+            }
         });
         
         // 输入框聚焦
+        updateInputPlaceholder();
         input.focus();
         
         // 通知扩展webview已经准备好
         vscode.postMessage({ command: 'ready' });
         
-        input.addEventListener('input', function() {
-            const inputText = this.value;
+        // 输入法组字开始：记录组字前的输入，拼写练习中提示切换到英文输入
+        input.addEventListener('compositionstart', function() {
+            composing = true;
+            compositionStartValue = this.value;
+            if (!isRecognitionMode()) {
+                showImeWarning(true);
+            }
+        });
+        
+        // 输入法组字结束：拼写练习中上屏的中文等非拉丁字符不计入作答，恢复组字前的输入；其他内容按正常输入处理
+        input.addEventListener('compositionend', function(event) {
+            composing = false;
+            if (!isRecognitionMode() && IME_TEXT_PATTERN.test(event.data || '')) {
+                this.value = compositionStartValue;
+                return;
+            }
+            handleInput(this.value, 'insertCompositionText');
+        });
+        
+        input.addEventListener('input', function(event) {
+            // 输入法组字过程中的拼音不作校验，等组字结束后再处理
+            if (composing || event.isComposing) {
+                return;
+            }
+            
+            // 正常输入英文后隐藏输入法提示
+            if (event.data && !IME_TEXT_PATTERN.test(event.data)) {
+                showImeWarning(false);
+            }
+            handleInput(this.value, event.inputType);
+        });
+        
+        function handleInput(inputText, inputType) {
+            // 已完成的单词等待跳转，不再校验输入
+            if (completedWord) {
+                return;
+            }
+            
+            // 统计按键次数（删除不计）
+            if (!(inputType || '').startsWith('delete')) {
+                recordKeystroke();
+            }
+            
+            // 英译中模式和宽松默写按回车提交，不逐字校验
+            if (practiceMode === 'reverse' || isLenientDictation()) {
+                return;
+            }
             
             // 只在正常模式下更新高亮显示
-            if (practiceMode === 'normal') {
+            if (!isDictationLike()) {
                 updateHighlight(inputText);
             }
             
-            // 检查输入
-            const result = checkInput(inputText);
-            
-            // 发送消息给扩展
-            vscode.postMessage({
-                command: 'inputChange',
-                text: inputText,
-                currentWord: currentWordData?.name || '',
-                isCorrect: result
-            });
-        });
+            // 检查输入（作答完成时发送作答记录，包含用时和打字速度）
+            checkInput(inputText);
+        }
     </script>
 </body>
 </html>`;
     }
 
-    // 记录单词练习结果
-    private async recordWordPractice(word: string, isCorrect: boolean) {
-        if (this.currentDictId && word && typeof isCorrect === 'boolean') {
-            // 获取当前词典名称
-            let dictName = '';
-            try {
-                const wordBooksList = await getStoredWordBooks(this.context);
-                const targetBook = wordBooksList.find((book: any) => book.id === this.currentDictId);
-                if (targetBook) {
-                    dictName = targetBook.name;
-                }
-            } catch (error) {
-                console.error('获取词典名称失败:', error);
-            }
-            
-            // 传递练习结果到记录管理器
+    // 校验 webview 发送的字母错误（每次作答最多保留 MAX_LETTER_ERRORS 条）
+    private normalizeLetterErrors(letterErrors: any): LetterError[] {
+        if (!Array.isArray(letterErrors)) {
+            return [];
+        }
+        return letterErrors
+            .filter(error => error && typeof error.typed === 'string' && error.typed && Number.isInteger(error.position) && error.position >= 0)
+            .slice(0, MAX_LETTER_ERRORS)
+            .map(error => ({
+                expected: typeof error.expected === 'string' ? error.expected.slice(0, 1) : '',
+                typed: error.typed.slice(0, 1),
+                position: error.position
+            }));
+    }
+
+    // 记录单词作答
+    private async recordWordAttempt(message: any) {
+        if (!message || typeof message.word !== 'string' || !message.word) {
+            return;
+        }
+        const keystrokes = Math.max(0, Number(message.keystrokes) || 0);
+        const durationMs = Math.max(0, Number(message.durationMs) || 0);
+        const firstKeyMs = Math.min(durationMs, Math.max(0, Number(message.firstKeyMs) || 0));
+        // 打字速度按首次按键到完成作答的时间计算，不含犹豫时间；少于两次按键时无法计算
+        const typingMs = durationMs - firstKeyMs;
+        const attempt: WordAttempt = {
+            word: message.word,
+            keystrokes,
+            mistakes: Math.max(0, Number(message.mistakes) || 0),
+            firstTryClean: !(Number(message.mistakes) > 0),
+            durationMs,
+            firstKeyMs,
+            cpm: keystrokes > 1 && typingMs > 0 ? Math.round(keystrokes / typingMs * 60000) : 0,
+            letterErrors: this.normalizeLetterErrors(message.letterErrors),
+            score: typeof message.score === 'number' && isFinite(message.score) ? Math.min(1, Math.max(0, message.score)) : undefined,
+            variant: typeof message.variant === 'string' && message.variant ? message.variant : undefined,
+            hints: Array.isArray(message.hints) ? message.hints.filter((hint: any) => HINT_TYPES.includes(hint)).slice(0, MAX_HINTS) : []
+        };
+        const word = attempt.word;
+        
+        // 复习会话中的单词按其所属章节记录
+        const sessionWord = this.reviewSession?.words.find(entry => entry.word.name === word);
+        if (sessionWord) {
+            await this.recordManager.recordWordPractice(
+                sessionWord.dictId,
+                sessionWord.chapterNumber,
+                attempt,
+                this.settings.practiceMode,
+                sessionWord.dictName
+            );
+            return;
+        }
+        
+        if (this.currentDictId) {
+            // 传递作答记录到记录管理器
             await this.recordManager.recordWordPractice(
                 this.currentDictId,
                 this.settings.currentChapter,
-                word,
-                isCorrect,  // 传递练习结果
+                attempt,
                 this.settings.practiceMode,
-                dictName // 传递词典名称
+                this.currentDictName // 传递词典名称
             );
         }
     }
@@ -0,0 +1,36 @@
+import { WordData } from './types';
+
+// 选择题选项数量
+export const QUIZ_OPTION_COUNT = 4;
+
+// 选择题：单词及其候选释义
+export interface QuizQuestion {
+    word: string;
+    options: string[];     // 候选释义（已打乱）
+    answerIndex: number;   // 正确释义在选项中的位置
+}
+
+// 单词释义的显示文本
+export function getTranslationText(word: WordData): string {
+    return word.trans ? word.trans.join(', ') : '';
+}
+
+// 为单词生成选择题：干扰项从同一词书中其他单词的释义中随机抽取（不与正确释义重复）
+export function buildQuizQuestion(word: WordData, pool: WordData[], random: () => number = Math.random): QuizQuestion {
+    const answer = getTranslationText(word);
+    const candidates = Array.from(new Set(
+        pool.map(item => getTranslationText(item)).filter(text => text && text !== answer)
+    ));
+
+    const distractors: string[] = [];
+    while (distractors.length < QUIZ_OPTION_COUNT - 1 && candidates.length > 0) {
+        const index = Math.floor(random() * candidates.length);
+        distractors.push(candidates.splice(index, 1)[0]);
+    }
+
+    // 将正确释义插入随机位置
+    const answerIndex = Math.floor(random() * (distractors.length + 1));
+    const options = [...distractors];
+    options.splice(answerIndex, 0, answer);
+    return { word: word.name, options, answerIndex };
+}
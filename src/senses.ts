@@ -0,0 +1,43 @@
+// 释义解析：将词书中的 trans 条目拆分为可单独作答的义项
+
+// 词性标注：开头的 n. / v. / adj. / vt.&vi. 等，或括号中的英文标注 (noun) / (adj.)
+const LEADING_POS_PATTERN = /^(?:[a-zA-Z]+\.\s*(?:&\s*)?)+/;
+const ENGLISH_PAREN_PATTERN = /[(（][a-zA-Z.\s&]*[)）]/g;
+// 义项分隔符
+const SENSE_SEPARATOR_PATTERN = /[，,；;、/]/;
+// 中文括号说明，如 (产品的)牌号、（使）移动
+const NOTE_PAREN_PATTERN = /[(（][^)）]*[)）]/g;
+
+// 规范化释义文本：去除空白和标点，便于比较
+export function normalizeMeaning(text: string): string {
+    return text.replace(/[\s\p{P}\p{S}]/gu, '');
+}
+
+// 解析单词的所有义项（去除词性标注，按分隔符拆分）
+export function parseSenses(trans: string[]): string[] {
+    const senses: string[] = [];
+    for (const entry of trans || []) {
+        const text = entry.replace(ENGLISH_PAREN_PATTERN, ' ').trim().replace(LEADING_POS_PATTERN, '');
+        for (const part of text.split(SENSE_SEPARATOR_PATTERN)) {
+            const sense = part.replace(/[\[\]【】]/g, '').trim();
+            if (sense && !senses.includes(sense)) {
+                senses.push(sense);
+            }
+        }
+    }
+    return senses;
+}
+
+// 判断输入的释义是否与某个义项相符，返回匹配的义项（括号中的说明可省略）
+export function matchSense(answer: string, trans: string[]): string | undefined {
+    const normalizedAnswer = normalizeMeaning(answer);
+    if (!normalizedAnswer) {
+        return undefined;
+    }
+
+    return parseSenses(trans).find(sense => {
+        const withNotes = normalizeMeaning(sense);
+        const withoutNotes = normalizeMeaning(sense.replace(NOTE_PAREN_PATTERN, ''));
+        return normalizedAnswer === withNotes || (withoutNotes !== '' && normalizedAnswer === withoutNotes);
+    });
+}
@@ -1,16 +1,88 @@
 import * as vscode from 'vscode';
-import { PluginSettings, defaultSettings } from './types';
+import { BookSettings, PluginSettings, defaultSettings, DEFAULT_WORDS_PER_CHAPTER, PRACTICE_MODES, PHONETIC_ACCENT_LABELS, MAX_AUTO_NEXT_DELAY_MS } from './types';
+import { formatLocalDate, getPracticeDate, normalizeRolloverHour } from './dateUtils';
+
+// VS Code 配置（settings.json）中的设置节
+export const CONFIG_SECTION = 'enpractice';
+
+// 保存在 globalState 中的设置（练习进度、按词书的单独设置）
+const SETTINGS_KEY = 'enpractice.settings';
+
+// 通过 VS Code 配置提供的设置项
+export type ConfigurableSettingKey = 'currentWordbook' | 'practiceMode' | 'chapterLoop' | 'wordsPerChapter'
+    | 'showPhonetics' | 'phoneticAccent' | 'showTranslation' | 'autoNextWord' | 'autoNextDelayMs'
+    | 'lenientDictation' | 'ignoreDiacritics' | 'ignorePunctuation'
+    | 'mistakeThreshold' | 'mistakeScope' | 'dayRolloverHour' | 'userWordbookDir' | 'syncEnabled';
+
+// 设置项对应的配置名（在 enpractice 节下，与 package.json 中的 contributes.configuration 一致）
+export const CONFIGURATION_KEYS: { [key in ConfigurableSettingKey]: string } = {
+    currentWordbook: 'wordbook',
+    practiceMode: 'practiceMode',
+    chapterLoop: 'chapterLoop',
+    wordsPerChapter: 'wordsPerChapter',
+    showPhonetics: 'display.showPhonetics',
+    phoneticAccent: 'display.phoneticAccent',
+    showTranslation: 'display.showTranslation',
+    autoNextWord: 'display.autoNextWord',
+    autoNextDelayMs: 'display.autoNextDelayMs',
+    lenientDictation: 'spelling.lenientDictation',
+    ignoreDiacritics: 'spelling.ignoreDiacritics',
+    ignorePunctuation: 'spelling.ignorePunctuation',
+    mistakeThreshold: 'mistakes.threshold',
+    mistakeScope: 'mistakes.scope',
+    dayRolloverHour: 'dayRolloverHour',
+    userWordbookDir: 'userWordbookDir',
+    syncEnabled: 'sync.enabled'
+};
+
+const CONFIGURABLE_SETTING_KEYS = Object.keys(CONFIGURATION_KEYS) as ConfigurableSettingKey[];
+
+function isConfigurableSetting(key: keyof PluginSettings): key is ConfigurableSettingKey {
+    return key in CONFIGURATION_KEYS;
+}
+
+// 将数值限制在范围内（无效值使用默认值）
+function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+    const number = Math.floor(Number(value));
+    return Number.isFinite(number) ? Math.min(max, Math.max(min, number)) : fallback;
+}
+
+// 读取 VS Code 配置中的设置（用户、工作区设置和策略按 VS Code 的优先级合并，无效值使用默认值）
+function getConfiguredSettings(): Pick<PluginSettings, ConfigurableSettingKey> {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const get = <K extends ConfigurableSettingKey>(key: K): PluginSettings[K] =>
+        config.get<PluginSettings[K]>(CONFIGURATION_KEYS[key], defaultSettings[key]);
+
+    const practiceMode = get('practiceMode');
+    const phoneticAccent = get('phoneticAccent');
+    const mistakeScope = get('mistakeScope');
+    return {
+        currentWordbook: get('currentWordbook') || defaultSettings.currentWordbook,
+        practiceMode: PRACTICE_MODES.includes(practiceMode) ? practiceMode : defaultSettings.practiceMode,
+        chapterLoop: !!get('chapterLoop'),
+        wordsPerChapter: clampNumber(get('wordsPerChapter'), 1, 200, defaultSettings.wordsPerChapter),
+        showPhonetics: !!get('showPhonetics'),
+        phoneticAccent: phoneticAccent in PHONETIC_ACCENT_LABELS ? phoneticAccent : defaultSettings.phoneticAccent,
+        showTranslation: !!get('showTranslation'),
+        autoNextWord: !!get('autoNextWord'),
+        autoNextDelayMs: clampNumber(get('autoNextDelayMs'), 0, MAX_AUTO_NEXT_DELAY_MS, defaultSettings.autoNextDelayMs),
+        lenientDictation: !!get('lenientDictation'),
+        ignoreDiacritics: !!get('ignoreDiacritics'),
+        ignorePunctuation: !!get('ignorePunctuation'),
+        mistakeThreshold: clampNumber(get('mistakeThreshold'), 1, 100, defaultSettings.mistakeThreshold),
+        mistakeScope: mistakeScope === 'all' ? 'all' : 'book',
+        dayRolloverHour: normalizeRolloverHour(get('dayRolloverHour')),
+        userWordbookDir: typeof get('userWordbookDir') === 'string' ? get('userWordbookDir') : '',
+        syncEnabled: !!get('syncEnabled')
+    };
+}
 
 // 设置管理函数
 export async function getSettings(context: vscode.ExtensionContext): Promise<PluginSettings> {
     try {
-        // 使用 globalState 替代文件系统存储
-        const settings = context.globalState.get<PluginSettings>('enpractice.settings');
-        if (settings) {
-            return settings;
-        }
-        // 如果 globalState 中没有设置，则返回默认设置
-        return defaultSettings;
+        // 练习进度等保存在 globalState 中，其余设置从 VS Code 配置读取
+        const settings = context.globalState.get<PluginSettings>(SETTINGS_KEY);
+        return { ...defaultSettings, ...settings, ...getConfiguredSettings() };
     } catch (error) {
         console.error('读取设置失败，使用默认设置:', error);
         return defaultSettings;
@@ -19,20 +91,102 @@ export async function getSettings(context: vscode.ExtensionContext): Promise<Plu
 
 export async function saveSettings(context: vscode.ExtensionContext, settings: PluginSettings): Promise<void> {
     try {
-        // 使用 globalState 替代文件系统存储
-        await context.globalState.update('enpractice.settings', settings);
+        // 只在 globalState 中保存练习进度等，VS Code 配置中的设置项通过 updateSetting 写入配置
+        const stored: Partial<PluginSettings> = { ...settings };
+        for (const key of CONFIGURABLE_SETTING_KEYS) {
+            delete stored[key];
+        }
+        await context.globalState.update(SETTINGS_KEY, stored);
     } catch (error) {
         console.error('保存设置失败:', error);
     }
 }
 
+// 写入 VS Code 配置：工作区中已设置该项时写入工作区设置，否则写入用户设置
+async function updateConfiguration(key: ConfigurableSettingKey, value: unknown): Promise<void> {
+    const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+    const inspected = config.inspect(CONFIGURATION_KEYS[key]);
+    const target = inspected && inspected.workspaceValue !== undefined
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await config.update(CONFIGURATION_KEYS[key], value, target);
+}
+
 export async function updateSetting<K extends keyof PluginSettings>(
     context: vscode.ExtensionContext, 
     key: K, 
     value: PluginSettings[K]
 ): Promise<void> {
+    if (isConfigurableSetting(key)) {
+        try {
+            await updateConfiguration(key, value);
+        } catch (error) {
+            // 例如设置项由策略管理时无法修改
+            console.error(`更新配置失败: ${CONFIG_SECTION}.${CONFIGURATION_KEYS[key]}`, error);
+            vscode.window.showErrorMessage(`更新设置失败: ${error}`);
+        }
+        return;
+    }
     const settings = await getSettings(context);
     settings[key] = value;
-    settings.lastUpdated = new Date().toISOString().split('T')[0];
+    settings.lastUpdated = formatLocalDate(new Date());
     await saveSettings(context, settings);
-}
\ No newline at end of file
+}
+
+// 将旧版本保存在 globalState 中的设置迁移到 VS Code 用户设置（与默认值相同或用户设置中已有的项不迁移）
+export async function migrateSettingsToConfiguration(context: vscode.ExtensionContext): Promise<void> {
+    try {
+        const stored = context.globalState.get<Partial<PluginSettings>>(SETTINGS_KEY);
+        if (!stored || !CONFIGURABLE_SETTING_KEYS.some(key => key in stored)) {
+            return;
+        }
+        
+        // 旧版本没有自动跳转的设置项，保存的 autoNextWord 只是当时的默认值，按原来的行为（自动跳转）处理
+        const legacy: Partial<PluginSettings> = stored.autoNextDelayMs === undefined
+            ? { ...stored, autoNextWord: true }
+            : stored;
+        const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+        for (const key of CONFIGURABLE_SETTING_KEYS) {
+            const value = legacy[key];
+            const inspected = config.inspect(CONFIGURATION_KEYS[key]);
+            if (value === undefined || value === defaultSettings[key] || (inspected && inspected.globalValue !== undefined)) {
+                continue;
+            }
+            await config.update(CONFIGURATION_KEYS[key], value, vscode.ConfigurationTarget.Global);
+        }
+        
+        // 迁移完成后 globalState 中只保留练习进度等
+        await saveSettings(context, { ...defaultSettings, ...legacy });
+        console.log('已将设置迁移到 VS Code 配置');
+    } catch (error) {
+        console.error('迁移设置到 VS Code 配置失败:', error);
+    }
+}
+
+// 获取词书的每章单词数（优先使用词书单独设置，其次使用全局设置）
+export function getBookWordsPerChapter(settings: PluginSettings, dictId: string): number {
+    const bookSettings = settings.bookSettings[dictId] || {};
+    const wordsPerChapter = bookSettings.wordsPerChapter || settings.wordsPerChapter;
+    return wordsPerChapter > 0 ? Math.floor(wordsPerChapter) : DEFAULT_WORDS_PER_CHAPTER;
+}
+
+export async function updateBookSetting<K extends keyof BookSettings>(
+    context: vscode.ExtensionContext,
+    dictId: string,
+    key: K,
+    value: BookSettings[K]
+): Promise<void> {
+    const settings = await getSettings(context);
+    settings.bookSettings = {
+        ...settings.bookSettings,
+        [dictId]: { ...settings.bookSettings[dictId], [key]: value, updatedAt: new Date().toISOString() }
+    };
+    settings.lastUpdated = formatLocalDate(new Date());
+    await saveSettings(context, settings);
+}
+
+// 获取当前练习日期（本地时间，按换日时间划分）
+export async function getCurrentPracticeDate(context: vscode.ExtensionContext): Promise<string> {
+    const settings = await getSettings(context);
+    return getPracticeDate(new Date(), settings.dayRolloverHour);
+}
@@ -1,8 +1,10 @@
 import * as vscode from 'vscode';
-import { PluginSettings, WordBookInfo, PracticeMode } from './types';
-import { getSettings, updateSetting } from './settings';
-import { getStoredWordBooks } from './wordbooks';
+import { PluginSettings, WordBookInfo, PracticeMode, PRACTICE_MODE_LABELS, WordOrder, WORD_ORDER_LABELS, PhoneticAccent, PHONETIC_ACCENT_LABELS, MAX_AUTO_NEXT_DELAY_MS } from './types';
+import { CONFIG_SECTION, getBookWordsPerChapter, getSettings, updateBookSetting, updateSetting } from './settings';
+import { getBookWordOrder, getStoredWordBooks, getUserWordBookDir, invalidateWordBookCache } from './wordbooks';
+import { createSeed } from './wordOrder';
 import { PracticeWebviewProvider } from './practiceProvider';
+import { normalizeRolloverHour } from './dateUtils';
 
 export function showSettingsPanel(context: vscode.ExtensionContext, practiceProvider: PracticeWebviewProvider) {
     // 创建设置面板
@@ -23,22 +25,33 @@ export function showSettingsPanel(context: vscode.ExtensionContext, practiceProv
         try {
             currentWordBooks = await getStoredWordBooks(context);
             const settings = await getSettings(context);
-            panel.webview.html = getSettingsWebviewContentWithData(currentWordBooks, settings);
+            const userDir = await getUserWordBookDir(context);
+            panel.webview.html = getSettingsWebviewContentWithData(currentWordBooks, settings, userDir.fsPath);
         } catch (error) {
             console.error('获取数据失败:', error);
             const defaultSettings = await getSettings(context);
-            panel.webview.html = getSettingsWebviewContentWithData([], defaultSettings);
+            panel.webview.html = getSettingsWebviewContentWithData([], defaultSettings, '');
         }
     }
     
     // 初始化加载
     updateWebviewContent();
 
+    // VS Code 配置变化（包括 settings.json 中的修改）后刷新设置页面
+    const configurationListener = vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration(CONFIG_SECTION)) {
+            updateWebviewContent();
+        }
+    });
+    panel.onDidDispose(() => configurationListener.dispose(), undefined, context.subscriptions);
+
     // 监听来自 webview 的消息
     panel.webview.onDidReceiveMessage(
         async message => {
             switch (message.command) {
                 case 'refreshWordBooks':
+                    // 重新扫描词书目录
+                    invalidateWordBookCache();
                     await updateWebviewContent();
                     break;
                 case 'switchWordBook':
@@ -48,22 +61,112 @@ export function showSettingsPanel(context: vscode.ExtensionContext, practiceProv
                     await updateWebviewContent();
                     break;
                 case 'updateChapterLoop':
+                    // 写入 VS Code 配置，练习面板和设置页面在配置变化时同步更新
                     await updateSetting(context, 'chapterLoop', message.chapterLoop);
-                    // 同步更新练习提供者的设置
-                    await practiceProvider.updateChapterLoopSetting(message.chapterLoop);
                     vscode.window.showInformationMessage(message.chapterLoop ? '已开启单章循环' : '已关闭单章循环');
-                    // 刷新设置页面以显示最新状态
-                    await updateWebviewContent();
+                    break;
+                case 'updateLenientDictation':
+                    await updateSetting(context, 'lenientDictation', message.lenientDictation);
+                    vscode.window.showInformationMessage(message.lenientDictation ? '已开启宽松默写' : '已关闭宽松默写');
+                    break;
+                case 'updateAnswerMatching':
+                    await updateSetting(context, 'ignoreDiacritics', message.ignoreDiacritics);
+                    await updateSetting(context, 'ignorePunctuation', message.ignorePunctuation);
+                    break;
+                case 'updateDisplaySettings': {
+                    const phoneticAccent: PhoneticAccent = message.phoneticAccent in PHONETIC_ACCENT_LABELS ? message.phoneticAccent : 'both';
+                    const autoNextDelayMs = Math.min(MAX_AUTO_NEXT_DELAY_MS, Math.max(0, Math.round(Number(message.autoNextDelayMs) || 0)));
+                    await updateSetting(context, 'showPhonetics', !!message.showPhonetics);
+                    await updateSetting(context, 'phoneticAccent', phoneticAccent);
+                    await updateSetting(context, 'showTranslation', !!message.showTranslation);
+                    await updateSetting(context, 'autoNextWord', !!message.autoNextWord);
+                    await updateSetting(context, 'autoNextDelayMs', autoNextDelayMs);
+                    break;
+                }
+                case 'updateSyncEnabled':
+                    await updateSetting(context, 'syncEnabled', !!message.syncEnabled);
+                    vscode.window.showInformationMessage(message.syncEnabled ? '已开启练习数据同步' : '已关闭练习数据同步');
+                    break;
+                case 'syncNow':
+                    await vscode.commands.executeCommand('enpractice.syncNow');
                     break;
                 case 'updatePracticeMode':
                     await updateSetting(context, 'practiceMode', message.practiceMode);
-                    // 同步更新练习提供者的设置
-                    await practiceProvider.updatePracticeMode(message.practiceMode);
-                    const modeText = message.practiceMode === 'normal' ? '正常模式' : '默写模式';
+                    const modeText = PRACTICE_MODE_LABELS[message.practiceMode as PracticeMode];
                     vscode.window.showInformationMessage(`已切换到${modeText}`);
-                    // 刷新设置页面以显示最新状态
+                    break;
+                case 'selectUserWordbookDir': {
+                    const folders = await vscode.window.showOpenDialog({
+                        canSelectFiles: false,
+                        canSelectFolders: true,
+                        canSelectMany: false,
+                        openLabel: '选择用户词书目录'
+                    });
+                    if (folders && folders.length > 0) {
+                        // 词书列表变化后练习面板在配置变化时重新加载
+                        await updateSetting(context, 'userWordbookDir', folders[0].fsPath);
+                        vscode.window.showInformationMessage(`用户词书目录已设置为: ${folders[0].fsPath}`);
+                    }
+                    break;
+                }
+                case 'resetUserWordbookDir':
+                    await updateSetting(context, 'userWordbookDir', '');
+                    vscode.window.showInformationMessage('已恢复默认用户词书目录');
+                    break;
+                case 'importWordBook':
+                    await vscode.commands.executeCommand('enpractice.importWordBook');
                     await updateWebviewContent();
                     break;
+                case 'openUserWordbookDir': {
+                    const userDir = await getUserWordBookDir(context);
+                    await vscode.workspace.fs.createDirectory(userDir);
+                    await vscode.commands.executeCommand('revealFileInOS', userDir);
+                    break;
+                }
+                case 'updateMistakeSettings': {
+                    const threshold = Math.min(100, Math.max(1, Number(message.mistakeThreshold) || 0));
+                    await updateSetting(context, 'mistakeThreshold', threshold);
+                    await updateSetting(context, 'mistakeScope', message.mistakeScope);
+                    break;
+                }
+                case 'updateWordOrder': {
+                    const settings = await getSettings(context);
+                    await updateBookSetting(context, settings.currentWordbook, 'order', message.order as WordOrder);
+                    await practiceProvider.updateWordOrder();
+                    vscode.window.showInformationMessage(`当前词书单词顺序已设置为: ${WORD_ORDER_LABELS[message.order as WordOrder]}`);
+                    await updateWebviewContent();
+                    break;
+                }
+                case 'reshuffleWordBook': {
+                    // 使用新的种子重新打乱（顺序模式下切换为乱序），练习统计按单词保存不受影响
+                    const settings = await getSettings(context);
+                    const currentBook = currentWordBooks.find(book => book.id === settings.currentWordbook);
+                    if (currentBook && getBookWordOrder(settings, currentBook).order === 'sequential') {
+                        await updateBookSetting(context, settings.currentWordbook, 'order', 'seeded');
+                    }
+                    await updateBookSetting(context, settings.currentWordbook, 'seed', createSeed());
+                    await practiceProvider.updateWordOrder();
+                    vscode.window.showInformationMessage('已重新打乱当前词书');
+                    await updateWebviewContent();
+                    break;
+                }
+                case 'updateWordsPerChapter': {
+                    const settings = await getSettings(context);
+                    const wordsPerChapter = Math.min(200, Math.max(1, Math.floor(Number(message.wordsPerChapter) || 0)));
+                    await updateBookSetting(context, settings.currentWordbook, 'wordsPerChapter', wordsPerChapter);
+                    // 同步更新练习提供者，并按新的章节划分换算练习位置
+                    await practiceProvider.updateWordsPerChapter(wordsPerChapter);
+                    vscode.window.showInformationMessage(`当前词书已设置为每章 ${wordsPerChapter} 个单词`);
+                    await updateWebviewContent();
+                    break;
+                }
+                case 'updateDayRolloverHour': {
+                    const rolloverHour = normalizeRolloverHour(message.dayRolloverHour);
+                    // 已有的每日记录在配置变化时按新的换日时间重新划分
+                    await updateSetting(context, 'dayRolloverHour', rolloverHour);
+                    vscode.window.showInformationMessage(`换日时间已设置为每天 ${rolloverHour}:00`);
+                    break;
+                }
             }
         },
         undefined,
@@ -71,8 +174,10 @@ export function showSettingsPanel(context: vscode.ExtensionContext, practiceProv
     );
 }
 
-function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings: PluginSettings): string {
+function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings: PluginSettings, userWordbookDir: string): string {
     let wordbookListHtml = '';
+    const currentBook = wordBooks.find(book => book.id === settings.currentWordbook);
+    const currentWordOrder = currentBook ? getBookWordOrder(settings, currentBook).order : 'sequential';
     
     if (!wordBooks || wordBooks.length === 0) {
         wordbookListHtml = '<div class="loading">暂无词书文件，请在data目录中添加词书文件</div>';
@@ -80,6 +185,9 @@ function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings:
         wordbookListHtml = wordBooks.map(book => {
             const isCurrentBook = book.id === settings.currentWordbook;
             let bookInfo = `<strong>${book.name || '未知词书'}</strong>`;
+            if (book.custom) {
+                bookInfo += ' <span class="custom-badge">自定义</span>';
+            }
             if (isCurrentBook) {
                 bookInfo += ' <span style="color: var(--vscode-charts-green); font-size: 12px;">[当前使用]</span>';
             }
@@ -90,6 +198,9 @@ function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings:
             if (book.length) {
                 bookInfo += `<small>单词数量: ${book.length}</small><br>`;
             }
+            if (settings.bookSettings[book.id]?.wordsPerChapter) {
+                bookInfo += `<small>每章单词数: ${getBookWordsPerChapter(settings, book.id)}</small><br>`;
+            }
             if (book.category) {
                 bookInfo += `<small>类别: ${book.category}</small><br>`;
             }
@@ -286,9 +397,51 @@ function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings:
             color: var(--vscode-descriptionForeground);
             padding: 20px;
         }
+        
+        .custom-badge {
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+            font-size: 11px;
+            padding: 1px 6px;
+            border-radius: 8px;
+        }
+        
+        .user-dir {
+            font-family: var(--vscode-editor-font-family);
+            font-size: 12px;
+            word-break: break-all;
+            color: var(--vscode-descriptionForeground);
+        }
     </style>
     <script>
         const vscode = acquireVsCodeApi();
+        
+        function updateMistakeSettings() {
+            vscode.postMessage({
+                command: 'updateMistakeSettings',
+                mistakeThreshold: document.getElementById('mistakeThresholdInput').value,
+                mistakeScope: document.getElementById('mistakeScopeSelect').value
+            });
+        }
+        
+        function updateDisplaySettings() {
+            vscode.postMessage({
+                command: 'updateDisplaySettings',
+                showPhonetics: document.getElementById('showPhoneticsCheckbox').checked,
+                phoneticAccent: document.getElementById('phoneticAccentSelect').value,
+                showTranslation: document.getElementById('showTranslationCheckbox').checked,
+                autoNextWord: document.getElementById('autoNextWordCheckbox').checked,
+                autoNextDelayMs: document.getElementById('autoNextDelayInput').value
+            });
+        }
+        
+        function updateAnswerMatching() {
+            vscode.postMessage({
+                command: 'updateAnswerMatching',
+                ignoreDiacritics: document.getElementById('ignoreDiacriticsCheckbox').checked,
+                ignorePunctuation: document.getElementById('ignorePunctuationCheckbox').checked
+            });
+        }
     </script>
 </head>
 <body>
@@ -297,10 +450,23 @@ function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings:
         
         <div class="section">
             <h3>词书管理</h3>
-            <div class="description">管理您的词书文件，支持上传、切换和删除操作。</div>
+            <div class="description">管理您的词书文件，支持上传、切换和删除操作。放入用户词书目录的 JSON 词书会与内置词书一起显示，并标记为“自定义”。</div>
             
             <div style="margin-bottom: 15px;">
                 <button class="button secondary" onclick="vscode.postMessage({command: 'refreshWordBooks'}); return false;">🔄 刷新列表</button>
+                <button class="button secondary" onclick="vscode.postMessage({command: 'importWordBook'}); return false;">📥 导入词书</button>
+                <button class="button secondary" onclick="vscode.postMessage({command: 'openUserWordbookDir'}); return false;">📂 打开用户词书目录</button>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">
+                    用户词书目录
+                    <div class="user-dir">${userWordbookDir}${settings.userWordbookDir ? '' : '（默认）'}</div>
+                </div>
+                <div class="setting-control">
+                    <button class="switch-btn" onclick="vscode.postMessage({command: 'selectUserWordbookDir'}); return false;">更改</button>
+                    <button class="switch-btn" onclick="vscode.postMessage({command: 'resetUserWordbookDir'}); return false;" ${settings.userWordbookDir ? '' : 'disabled'}>恢复默认</button>
+                </div>
             </div>
             
             <div class="wordbook-list" id="wordbookList">
@@ -320,14 +486,95 @@ function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings:
                             style="background-color: var(--vscode-dropdown-background); color: var(--vscode-dropdown-foreground); border: 1px solid var(--vscode-dropdown-border); padding: 4px 8px; border-radius: 2px;">
                         <option value="normal" ${settings.practiceMode === 'normal' ? 'selected' : ''}>正常模式（显示单词）</option>
                         <option value="dictation" ${settings.practiceMode === 'dictation' ? 'selected' : ''}>默写模式（仅显示翻译）</option>
+                        <option value="mistakes" ${settings.practiceMode === 'mistakes' ? 'selected' : ''}>错题本（复习错词）</option>
+                        <option value="quiz" ${settings.practiceMode === 'quiz' ? 'selected' : ''}>选择题模式（看单词选释义）</option>
+                        <option value="reverse" ${settings.practiceMode === 'reverse' ? 'selected' : ''}>英译中模式（看单词输入释义）</option>
+                    </select>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">宽松默写</div>
+                <div class="setting-control">
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="lenientDictationCheckbox"
+                               onchange="vscode.postMessage({command: 'updateLenientDictation', lenientDictation: this.checked}); return false;"
+                               ${settings.lenientDictation ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">${settings.lenientDictation ? '已开启' : '已关闭'}（默写模式和错题本输入完整单词后按回车提交，标出多输入、漏输入和输错的字母并按相似度评分）</span>
+                    </label>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">拼写判定</div>
+                <div class="setting-control">
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="ignoreDiacriticsCheckbox"
+                               onchange="updateAnswerMatching(); return false;"
+                               ${settings.ignoreDiacritics ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">忽略重音符号（café 可输入为 cafe）</span>
+                    </label>
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="ignorePunctuationCheckbox"
+                               onchange="updateAnswerMatching(); return false;"
+                               ${settings.ignorePunctuation ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">忽略标点（连字符、撇号等无需输入）</span>
+                    </label>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">错题本正确率阈值</div>
+                <div class="setting-control">
+                    <input type="number" id="mistakeThresholdInput" class="setting-input" min="1" max="100"
+                           value="${settings.mistakeThreshold}"
+                           onchange="updateMistakeSettings(); return false;">
+                    <span style="font-size: 13px;">%（100 表示所有出过错的单词）</span>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">错题本范围</div>
+                <div class="setting-control">
+                    <select id="mistakeScopeSelect" class="setting-select" onchange="updateMistakeSettings(); return false;">
+                        <option value="book" ${settings.mistakeScope === 'book' ? 'selected' : ''}>当前词书</option>
+                        <option value="all" ${settings.mistakeScope === 'all' ? 'selected' : ''}>全部词书</option>
                     </select>
                 </div>
             </div>
             
             <div class="setting-item">
-                <div class="setting-label">每章单词数</div>
+                <div class="setting-label">单词顺序（当前词书）</div>
                 <div class="setting-control">
-                    <span style="color: var(--vscode-charts-green);">10 个（固定）</span>
+                    <select id="wordOrderSelect" class="setting-select" onchange="vscode.postMessage({command: 'updateWordOrder', order: this.value}); return false;">
+                        ${(Object.keys(WORD_ORDER_LABELS) as WordOrder[]).map(order =>
+                            `<option value="${order}" ${currentWordOrder === order ? 'selected' : ''}>${WORD_ORDER_LABELS[order]}</option>`
+                        ).join('')}
+                    </select>
+                    <button class="switch-btn" onclick="vscode.postMessage({command: 'reshuffleWordBook'}); return false;">🔀 重新打乱</button>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">每章单词数（当前词书）</div>
+                <div class="setting-control">
+                    <input type="number" id="wordsPerChapterInput" class="setting-input" min="1" max="200"
+                           value="${getBookWordsPerChapter(settings, settings.currentWordbook)}"
+                           onchange="vscode.postMessage({command: 'updateWordsPerChapter', wordsPerChapter: this.value}); return false;">
+                    <span style="font-size: 13px;">个（练习记录按单词保存，修改后章节统计会按新的划分显示）</span>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">换日时间</div>
+                <div class="setting-control">
+                    <input type="number" id="dayRolloverHourInput" class="setting-input" min="0" max="23"
+                           value="${settings.dayRolloverHour}"
+                           onchange="vscode.postMessage({command: 'updateDayRolloverHour', dayRolloverHour: this.value}); return false;">
+                    <span style="font-size: 13px;">点（本地时间，该时间之前的练习计入前一天，修改后会重新划分每日记录）</span>
                 </div>
             </div>
             
@@ -360,6 +607,76 @@ function getSettingsWebviewContentWithData(wordBooks: WordBookInfo[], settings:
             </div>
         </div>
         
+        <div class="section">
+            <h3>显示设置</h3>
+            <div class="description">调整练习面板的显示方式，修改后立即生效。</div>
+            
+            <div class="setting-item">
+                <div class="setting-label">显示音标</div>
+                <div class="setting-control">
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="showPhoneticsCheckbox"
+                               onchange="updateDisplaySettings(); return false;"
+                               ${settings.showPhonetics ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">${settings.showPhonetics ? '已开启' : '已关闭'}</span>
+                    </label>
+                    <select id="phoneticAccentSelect" class="setting-select" onchange="updateDisplaySettings(); return false;">
+                        ${(Object.keys(PHONETIC_ACCENT_LABELS) as PhoneticAccent[]).map(accent => `<option value="${accent}" ${settings.phoneticAccent === accent ? 'selected' : ''}>${PHONETIC_ACCENT_LABELS[accent]}</option>`).join('')}
+                    </select>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">显示释义</div>
+                <div class="setting-control">
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="showTranslationCheckbox"
+                               onchange="updateDisplaySettings(); return false;"
+                               ${settings.showTranslation ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">${settings.showTranslation ? '已开启' : '已关闭'}（正常模式；默写模式始终显示释义）</span>
+                    </label>
+                </div>
+            </div>
+            
+            <div class="setting-item">
+                <div class="setting-label">自动跳转</div>
+                <div class="setting-control">
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="autoNextWordCheckbox"
+                               onchange="updateDisplaySettings(); return false;"
+                               ${settings.autoNextWord ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">${settings.autoNextWord ? '已开启' : '已关闭（按回车继续）'}</span>
+                    </label>
+                    <input type="number" id="autoNextDelayInput" class="setting-input" min="0" max="${MAX_AUTO_NEXT_DELAY_MS}" step="100"
+                           value="${settings.autoNextDelayMs}"
+                           onchange="updateDisplaySettings(); return false;">
+                    <span style="font-size: 13px;">毫秒后跳转（正常模式完成单词后）</span>
+                </div>
+            </div>
+        </div>
+        
+        <div class="section">
+            <h3>同步</h3>
+            <div class="description">通过 VS Code 的 Settings Sync 在多台设备之间同步练习位置、词书单独设置和单词统计（需要在 Settings Sync 中同步“UI 状态”）。两台设备离线练习后合并时，各自的作答次数都会保留。</div>
+            
+            <div class="setting-item">
+                <div class="setting-label">同步练习数据</div>
+                <div class="setting-control">
+                    <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                        <input type="checkbox" id="syncEnabledCheckbox"
+                               onchange="vscode.postMessage({command: 'updateSyncEnabled', syncEnabled: this.checked}); return false;"
+                               ${settings.syncEnabled ? 'checked' : ''}
+                               style="margin: 0;">
+                        <span style="font-size: 13px;">${settings.syncEnabled ? '已开启' : '已关闭'}</span>
+                    </label>
+                    <button class="switch-btn" onclick="vscode.postMessage({command: 'syncNow'}); return false;" ${settings.syncEnabled ? '' : 'disabled'}>立即同步</button>
+                </div>
+            </div>
+        </div>
+        
         <div class="section">
             <h3>关于</h3>
             <div class="description">
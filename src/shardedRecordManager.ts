@@ -1,18 +1,74 @@
 import * as vscode from 'vscode';
-import { DictRecord, WordRecord, ChapterRecord, createDefaultDictRecord, FIXED_WORDS_PER_CHAPTER, PracticeMode } from './types';
+import { DictRecord, WordRecord, ChapterRecord, createDefaultDictRecord, DEFAULT_WORDS_PER_CHAPTER, PracticeMode, PRACTICE_MODES, WordAttempt, WordData, SyncWordCounts } from './types';
 import { DayRecordManager } from './dayRecordManager';
+import { SrsManager } from './srsManager';
+import { getBookWordsPerChapter, getSettings } from './settings';
+import { getRecordStoreDictIds, resolveRecordStoreId } from './wordbooks';
+
+// 单词记录分组：单词标识 -> 单词记录
+export type WordRecordMap = { [wordKey: string]: WordRecord };
+
+// 主记录、单词记录分片和旧版章节记录的 globalState 键名
+export const MAIN_RECORD_KEY_PATTERN = new RegExp(`^enpractice\\.records\\.(.+)\\.(${PRACTICE_MODES.join('|')})\\.main$`);
+export const WORD_BUCKET_KEY_PATTERN = new RegExp(`^enpractice\\.records\\.(.+)\\.(${PRACTICE_MODES.join('|')})\\.words\\.[a-z_]$`);
+export const LEGACY_CHAPTER_KEY_PATTERN = new RegExp(`^enpractice\\.records\\.(.+)\\.(${PRACTICE_MODES.join('|')})\\.ch(\\d+)$`);
+
+// 正在进行的记录迁移（避免多个管理器实例重复迁移同一份数据）
+const pendingStoreMigrations = new Map<string, Promise<void>>();
+
+// 已完成迁移的记录存储（记录存储ID.模式 -> 迁移时的来源词典），来源词典不变时不再扫描旧记录
+const completedStoreMigrations = new Map<string, string>();
+
+// 导入或重置数据后重新检查旧记录（导入的数据可能包含旧版章节记录）
+export function resetWordStoreMigrations(): void {
+    completedStoreMigrations.clear();
+}
+
+// 单词记录的标识（去除首尾空白并转为小写），词书调整顺序或插入单词后仍能对应到原记录
+export function getWordKey(word: string): string {
+    return word.trim().toLowerCase();
+}
+
+// 合并同一单词的两条记录
+export function mergeWordRecords(existing: WordRecord | undefined, incoming: WordRecord): WordRecord {
+    if (!existing) {
+        return { ...incoming };
+    }
+    const practiceCount = existing.practiceCount + incoming.practiceCount;
+    const correctCount = existing.correctCount + incoming.correctCount;
+    return {
+        word: existing.word,
+        practiceCount,
+        correctCount,
+        errorCount: existing.errorCount + incoming.errorCount,
+        lastPracticeTime: existing.lastPracticeTime > incoming.lastPracticeTime ? existing.lastPracticeTime : incoming.lastPracticeTime,
+        correctRate: practiceCount > 0 ? (correctCount / practiceCount) * 100 : 0,
+        mistakeCount: (existing.mistakeCount || 0) + (incoming.mistakeCount || 0),
+        keystrokeCount: (existing.keystrokeCount || 0) + (incoming.keystrokeCount || 0),
+        totalDurationMs: (existing.totalDurationMs || 0) + (incoming.totalDurationMs || 0),
+        timedCount: (existing.timedCount || 0) + (incoming.timedCount || 0),
+        totalFirstKeyMs: (existing.totalFirstKeyMs || 0) + (incoming.totalFirstKeyMs || 0),
+        cpmTotal: (existing.cpmTotal || 0) + (incoming.cpmTotal || 0),
+        cpmCount: (existing.cpmCount || 0) + (incoming.cpmCount || 0),
+        hintedCount: (existing.hintedCount || 0) + (incoming.hintedCount || 0),
+        hintCount: (existing.hintCount || 0) + (incoming.hintCount || 0)
+    };
+}
 
 /**
  * 分片记录管理器
- * 采用简单的分片存储策略：每章一个文件
+ * 单词记录按单词标识存储，并按首字母分片；章节统计根据词书单词列表实时计算
+ * 主记录（练习位置）按词书ID存储，单词记录按记录存储ID（sourceId）存储，同源词书共享
  */
 export class ShardedRecordManager {
     private context: vscode.ExtensionContext;
     private dayRecordManager: DayRecordManager;
+    private srsManager: SrsManager;
 
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
         this.dayRecordManager = new DayRecordManager(context);
+        this.srsManager = new SrsManager(context);
     }
 
     // 获取主记录的 globalState 键名
@@ -20,9 +76,20 @@ export class ShardedRecordManager {
         return `enpractice.records.${dictId}.${practiceMode}.main`;
     }
 
-    // 获取章节记录的 globalState 键名
-    private getChapterRecordKey(dictId: string, chapterNumber: number, practiceMode: PracticeMode): string {
-        return `enpractice.records.${dictId}.${practiceMode}.ch${chapterNumber}`;
+    // 获取单词记录分片的 globalState 键名前缀（storeId 为记录存储ID）
+    private getWordBucketPrefix(storeId: string, practiceMode: PracticeMode): string {
+        return `enpractice.records.${storeId}.${practiceMode}.words.`;
+    }
+
+    // 获取单词所在分片的 globalState 键名（按首字母分片，非字母开头的单词放在同一分片）
+    private getWordBucketKey(storeId: string, wordKey: string, practiceMode: PracticeMode): string {
+        const bucket = /^[a-z]/.test(wordKey) ? wordKey[0] : '_';
+        return `${this.getWordBucketPrefix(storeId, practiceMode)}${bucket}`;
+    }
+
+    // 获取词典当前设置的每章单词数
+    private async getWordsPerChapter(dictId: string): Promise<number> {
+        return getBookWordsPerChapter(await getSettings(this.context), dictId);
     }
 
     // 加载主记录（不包含章节详细数据）
@@ -30,23 +97,23 @@ export class ShardedRecordManager {
         try {
             const recordKey = this.getMainRecordKey(dictId, practiceMode);
             const record = this.context.globalState.get<DictRecord>(recordKey);
-            
+
             if (record) {
                 // 数据一致性检查和更新
                 if (record.totalWords !== totalWords) {
                     record.totalWords = totalWords;
-                    record.totalChapters = Math.ceil(totalWords / FIXED_WORDS_PER_CHAPTER);
+                    record.totalChapters = Math.ceil(totalWords / (record.wordsPerChapter || DEFAULT_WORDS_PER_CHAPTER));
                     await this.saveMainRecord(record);
                 }
                 return record;
             }
-            
+
             // 如果 globalState 中没有记录，则创建默认记录
-            const newRecord = createDefaultDictRecord(dictId, dictName, totalWords, practiceMode);
+            const newRecord = createDefaultDictRecord(dictId, dictName, totalWords, practiceMode, await this.getWordsPerChapter(dictId));
             await this.saveMainRecord(newRecord);
             return newRecord;
         } catch (error) {
-            const newRecord = createDefaultDictRecord(dictId, dictName, totalWords, practiceMode);
+            const newRecord = createDefaultDictRecord(dictId, dictName, totalWords, practiceMode, await this.getWordsPerChapter(dictId));
             await this.saveMainRecord(newRecord);
             return newRecord;
         }
@@ -63,46 +130,75 @@ export class ShardedRecordManager {
         }
     }
 
-    // 加载章节记录
-    async loadChapterRecord(dictId: string, chapterNumber: number, practiceMode: PracticeMode = 'normal'): Promise<ChapterRecord> {
-        try {
-            const recordKey = this.getChapterRecordKey(dictId, chapterNumber, practiceMode);
-            const record = this.context.globalState.get<ChapterRecord>(recordKey);
-            
-            if (record) {
-                return record;
+    // 加载词典的全部单词记录
+    async loadWordRecords(dictId: string, practiceMode: PracticeMode = 'normal'): Promise<WordRecordMap> {
+        const storeId = await this.prepareWordStore(dictId, practiceMode);
+
+        const keyPrefix = this.getWordBucketPrefix(storeId, practiceMode);
+        const wordRecords: WordRecordMap = {};
+        for (const key of this.context.globalState.keys()) {
+            if (key.startsWith(keyPrefix)) {
+                Object.assign(wordRecords, this.context.globalState.get<WordRecordMap>(key) || {});
             }
-            
-            // 如果 globalState 中没有记录，则返回默认章节记录
-            return {
-                chapterNumber,
-                totalWordsInChapter: 10,
-                completedWordsCount: 0,
-                chapterCompletionCount: 0,
-                lastPracticeTime: new Date().toISOString(),
-                wordRecords: {}
-            };
-        } catch (error) {
-            // 返回默认章节记录
-            return {
-                chapterNumber,
-                totalWordsInChapter: 10,
-                completedWordsCount: 0,
-                chapterCompletionCount: 0,
-                lastPracticeTime: new Date().toISOString(),
-                wordRecords: {}
-            };
         }
+        return wordRecords;
     }
 
-    // 保存章节记录
-    async saveChapterRecord(dictId: string, chapterRecord: ChapterRecord, practiceMode: PracticeMode = 'normal'): Promise<void> {
-        try {
-            const recordKey = this.getChapterRecordKey(dictId, chapterRecord.chapterNumber, practiceMode);
-            await this.context.globalState.update(recordKey, chapterRecord);
-        } catch (error) {
-            console.error(`保存章节记录失败: ${dictId}, 章节: ${chapterRecord.chapterNumber} - ${practiceMode}模式`, error);
+    // 加载单个单词的记录
+    async loadWordRecord(dictId: string, word: string, practiceMode: PracticeMode = 'normal'): Promise<WordRecord | undefined> {
+        const storeId = await this.prepareWordStore(dictId, practiceMode);
+
+        const wordKey = getWordKey(word);
+        const bucket = this.context.globalState.get<WordRecordMap>(this.getWordBucketKey(storeId, wordKey, practiceMode));
+        return bucket ? bucket[wordKey] : undefined;
+    }
+
+    // 根据词书单词列表汇总章节记录
+    private buildChapterRecord(chapterNumber: number, chapterWords: WordData[], wordsPerChapter: number, wordRecords: WordRecordMap): ChapterRecord {
+        const chapterWordRecords: { [word: string]: WordRecord } = {};
+        for (const word of chapterWords) {
+            const wordRecord = wordRecords[getWordKey(word.name)];
+            if (wordRecord) {
+                chapterWordRecords[word.name] = wordRecord;
+            }
+        }
+
+        const practicedRecords = Object.values(chapterWordRecords).filter(wr => wr.practiceCount > 0);
+        // 章节完成次数为所有已练习单词正确次数中的最小值
+        const correctCounts = practicedRecords.map(wr => wr.correctCount);
+        const lastPracticeTime = practicedRecords
+            .map(wr => wr.lastPracticeTime)
+            .reduce((latest, time) => time > latest ? time : latest, '');
+
+        return {
+            chapterNumber,
+            totalWordsInChapter: chapterWords.length,
+            wordsPerChapter,
+            completedWordsCount: practicedRecords.length,
+            chapterCompletionCount: correctCounts.length > 0 ? Math.min(...correctCounts) : 0,
+            lastPracticeTime,
+            wordRecords: chapterWordRecords
+        };
+    }
+
+    // 加载章节记录（按当前每章单词数从单词记录中汇总）
+    async loadChapterRecord(dictId: string, words: WordData[], chapterNumber: number, practiceMode: PracticeMode = 'normal'): Promise<ChapterRecord> {
+        const wordsPerChapter = await this.getWordsPerChapter(dictId);
+        const wordRecords = await this.loadWordRecords(dictId, practiceMode);
+        const startIndex = (chapterNumber - 1) * wordsPerChapter;
+        return this.buildChapterRecord(chapterNumber, words.slice(startIndex, startIndex + wordsPerChapter), wordsPerChapter, wordRecords);
+    }
+
+    // 加载词典所有章节的记录
+    async loadChapterRecords(dictId: string, words: WordData[], practiceMode: PracticeMode = 'normal'): Promise<ChapterRecord[]> {
+        const wordsPerChapter = await this.getWordsPerChapter(dictId);
+        const wordRecords = await this.loadWordRecords(dictId, practiceMode);
+        const chapterRecords: ChapterRecord[] = [];
+        for (let startIndex = 0; startIndex < words.length; startIndex += wordsPerChapter) {
+            const chapterNumber = startIndex / wordsPerChapter + 1;
+            chapterRecords.push(this.buildChapterRecord(chapterNumber, words.slice(startIndex, startIndex + wordsPerChapter), wordsPerChapter, wordRecords));
         }
+        return chapterRecords;
     }
 
     // 兼容性方法：加载完整词典记录
@@ -123,101 +219,254 @@ export class ShardedRecordManager {
         }
     }
 
-    // 记录单词练习结果
+    // 记录一次单词作答
     async recordWordPractice(
-        dictId: string, 
-        chapterNumber: number, 
-        word: string, 
-        isCorrect: boolean,
+        dictId: string,
+        chapterNumber: number,
+        attempt: WordAttempt,
         practiceMode: PracticeMode = 'normal',
         dictName: string = '' // 添加词典名称参数
     ): Promise<void> {
         try {
-            // 加载章节记录
-            let chapterRecord = await this.loadChapterRecord(dictId, chapterNumber, practiceMode);
-            
-            // 检查是否是默认记录（没有实际练习数据）
-            const isEmptyRecord = Object.keys(chapterRecord.wordRecords).length === 0;
-            
+            const storeId = await this.prepareWordStore(dictId, practiceMode);
+
+            // 加载单词所在的分片
+            const word = attempt.word;
+            const wordKey = getWordKey(word);
+            const bucketKey = this.getWordBucketKey(storeId, wordKey, practiceMode);
+            const bucket: WordRecordMap = { ...(this.context.globalState.get<WordRecordMap>(bucketKey) || {}) };
+
             // 确保单词记录存在
-            if (!chapterRecord.wordRecords[word]) {
-                chapterRecord.wordRecords[word] = {
-                    word,
-                    practiceCount: 0,
-                    correctCount: 0,
-                    errorCount: 0,
-                    lastPracticeTime: new Date().toISOString(),
-                    correctRate: 0
-                };
-            }
-
-            const wordRecord = chapterRecord.wordRecords[word];
-            
-            // 更新单词记录
+            const wordRecord: WordRecord = bucket[wordKey] ? { ...bucket[wordKey] } : {
+                word,
+                practiceCount: 0,
+                correctCount: 0,
+                errorCount: 0,
+                lastPracticeTime: new Date().toISOString(),
+                correctRate: 0
+            };
+
+            // 更新单词记录（一次通过且未使用提示计为正确，作答中出过错计为错误，未出错但使用了提示的只计入作答次数）
+            const hintCount = attempt.hints ? attempt.hints.length : 0;
             wordRecord.practiceCount++;
-            if (isCorrect) {
-                wordRecord.correctCount++;
-            } else {
+            if (!attempt.firstTryClean) {
                 wordRecord.errorCount++;
+            } else if (hintCount === 0) {
+                wordRecord.correctCount++;
+            }
+            if (hintCount > 0) {
+                wordRecord.hintedCount = (wordRecord.hintedCount || 0) + 1;
+                wordRecord.hintCount = (wordRecord.hintCount || 0) + hintCount;
+            }
+            wordRecord.mistakeCount = (wordRecord.mistakeCount || 0) + attempt.mistakes;
+            wordRecord.keystrokeCount = (wordRecord.keystrokeCount || 0) + attempt.keystrokes;
+            wordRecord.totalDurationMs = (wordRecord.totalDurationMs || 0) + attempt.durationMs;
+            wordRecord.timedCount = (wordRecord.timedCount || 0) + 1;
+            wordRecord.totalFirstKeyMs = (wordRecord.totalFirstKeyMs || 0) + attempt.firstKeyMs;
+            // 打字速度只统计能计算速度的作答（选择题和单字母单词的作答速度为 0）
+            if (attempt.cpm > 0) {
+                wordRecord.cpmTotal = (wordRecord.cpmTotal || 0) + attempt.cpm;
+                wordRecord.cpmCount = (wordRecord.cpmCount || 0) + 1;
             }
             wordRecord.lastPracticeTime = new Date().toISOString();
             wordRecord.correctRate = wordRecord.practiceCount > 0 ? (wordRecord.correctCount / wordRecord.practiceCount) * 100 : 0;
 
-            // 更新章节记录
-            chapterRecord.totalWordsInChapter = 10; // 固定每章节10个单词
-            chapterRecord.completedWordsCount = Object.values(chapterRecord.wordRecords)
-                .filter((wr: any) => wr.practiceCount > 0).length;
-            
-            // 计算章节完成次数（所有单词正确次数中的最小值）
-            const allWordRecords = Object.values(chapterRecord.wordRecords).filter((wr: any) => wr.practiceCount > 0);
-            const correctCounts = allWordRecords.map((wr: any) => wr.correctCount);
-            chapterRecord.chapterCompletionCount = correctCounts.length > 0 ? Math.min(...correctCounts) : 0;
-            
-            chapterRecord.lastPracticeTime = new Date().toISOString();
-
-            // 保存章节记录（只有在有实际练习数据时才保存）
-            if (!isEmptyRecord || Object.keys(chapterRecord.wordRecords).length > 0) {
-                await this.saveChapterRecord(dictId, chapterRecord, practiceMode);
-            }
-            
+            // 保存单词记录
+            bucket[wordKey] = wordRecord;
+            await this.context.globalState.update(bucketKey, bucket);
+
+            // 更新间隔重复调度
+            await this.srsManager.recordReview(dictId, word, SrsManager.qualityFromAttempt(attempt), practiceMode);
+
             // 记录每日练习（每天每个单词只记录一次）
             if (dictName) {
-                // 传递练习结果到每日记录管理器
-                await this.dayRecordManager.recordWordPractice(dictId, dictName, chapterNumber, word, isCorrect, practiceMode);
+                // 传递作答记录到每日记录管理器
+                await this.dayRecordManager.recordWordPractice(dictId, dictName, chapterNumber, attempt, practiceMode);
             }
         } catch (error) {
             console.error('记录单词练习失败:', error);
         }
     }
 
-    // 记录章节完成（保留用于兼容性）
-    async recordChapterCompletion(dictId: string, chapterNumber: number, practiceMode: PracticeMode = 'normal'): Promise<void> {
+    // 获取词典的记录存储ID，并将尚未合并的记录迁移到该存储中
+    private async prepareWordStore(dictId: string, practiceMode: PracticeMode): Promise<string> {
+        const storeId = await resolveRecordStoreId(this.context, dictId);
+        const migrationKey = `${storeId}.${practiceMode}`;
+        // 同源的词书增加后需要再次迁移
+        const sourceDictIds = Array.from(new Set([storeId, dictId, ...await getRecordStoreDictIds(this.context, storeId)])).sort();
+        const sources = sourceDictIds.join(',');
+        if (completedStoreMigrations.get(migrationKey) === sources) {
+            return storeId;
+        }
+
+        let migration = pendingStoreMigrations.get(migrationKey);
+        if (!migration) {
+            migration = this.migrateToWordStore(storeId, sourceDictIds, practiceMode)
+                .then(() => {
+                    completedStoreMigrations.set(migrationKey, sources);
+                })
+                .catch(error => console.error(`迁移练习记录失败: ${storeId} - ${practiceMode}模式`, error))
+                .finally(() => pendingStoreMigrations.delete(migrationKey));
+            pendingStoreMigrations.set(migrationKey, migration);
+        }
+        await migration;
+        return storeId;
+    }
+
+    // 一次性迁移：将旧版按章节存储的记录（chN）以及同源词书各自的单词记录合并到记录存储中
+    private async migrateToWordStore(storeId: string, sourceDictIds: string[], practiceMode: PracticeMode): Promise<void> {
+        const buckets: { [bucketKey: string]: WordRecordMap } = {};
+        const migratedKeys: string[] = [];
+
+        // 合并一条单词记录到记录存储的分片中
+        const mergeIntoStore = (wordRecord: WordRecord) => {
+            const wordKey = getWordKey(wordRecord.word);
+            const bucketKey = this.getWordBucketKey(storeId, wordKey, practiceMode);
+            if (!buckets[bucketKey]) {
+                buckets[bucketKey] = { ...(this.context.globalState.get<WordRecordMap>(bucketKey) || {}) };
+            }
+            buckets[bucketKey][wordKey] = mergeWordRecords(buckets[bucketKey][wordKey], wordRecord);
+        };
+
+        for (const sourceDictId of sourceDictIds) {
+            // 旧版章节记录
+            const chapterPrefix = `enpractice.records.${sourceDictId}.${practiceMode}.ch`;
+            const chapterKeys = this.context.globalState.keys()
+                .filter(key => key.startsWith(chapterPrefix) && /^\d+$/.test(key.slice(chapterPrefix.length)));
+            for (const chapterKey of chapterKeys) {
+                const chapterRecord = this.context.globalState.get<ChapterRecord>(chapterKey);
+                Object.values(chapterRecord?.wordRecords || {}).forEach(mergeIntoStore);
+                migratedKeys.push(chapterKey);
+            }
+
+            // 同源词书在声明 sourceId 之前各自保存的单词记录
+            if (sourceDictId !== storeId) {
+                const bucketPrefix = this.getWordBucketPrefix(sourceDictId, practiceMode);
+                const bucketKeys = this.context.globalState.keys().filter(key => key.startsWith(bucketPrefix));
+                for (const bucketKey of bucketKeys) {
+                    Object.values(this.context.globalState.get<WordRecordMap>(bucketKey) || {}).forEach(mergeIntoStore);
+                    migratedKeys.push(bucketKey);
+                }
+            }
+        }
+
+        if (migratedKeys.length === 0) {
+            return;
+        }
+
+        // 先写入合并后的单词记录，再删除旧记录
+        for (const [bucketKey, bucket] of Object.entries(buckets)) {
+            await this.context.globalState.update(bucketKey, bucket);
+        }
+        for (const key of migratedKeys) {
+            await this.context.globalState.update(key, undefined);
+        }
+        console.log(`已将 ${migratedKeys.length} 个旧记录合并到单词记录: ${storeId} - ${practiceMode}模式`);
+    }
+
+    // 确保练习位置与当前设置的每章单词数一致（每章单词数变化后按单词的绝对位置换算）
+    async ensureChapterLayout(dictId: string): Promise<void> {
+        const wordsPerChapter = await this.getWordsPerChapter(dictId);
+        for (const practiceMode of PRACTICE_MODES) {
+            const record = this.context.globalState.get<DictRecord>(this.getMainRecordKey(dictId, practiceMode));
+            if (!record || record.wordsPerChapter === wordsPerChapter) {
+                continue;
+            }
+
+            const previousWordsPerChapter = record.wordsPerChapter || DEFAULT_WORDS_PER_CHAPTER;
+            const wordPosition = (record.currentChapter - 1) * previousWordsPerChapter + record.currentWordIndex;
+            record.currentChapter = Math.floor(wordPosition / wordsPerChapter) + 1;
+            record.currentWordIndex = wordPosition % wordsPerChapter;
+            record.totalChapters = Math.ceil(record.totalWords / wordsPerChapter);
+            record.wordsPerChapter = wordsPerChapter;
+            await this.saveMainRecord(record);
+        }
+    }
+
+    // 更新本轮章节练习的打乱种子
+    async updatePassSeed(dictId: string, passSeed: number, practiceMode: PracticeMode = 'normal'): Promise<void> {
         try {
-            const chapterRecord = await this.loadChapterRecord(dictId, chapterNumber, practiceMode);
-            
-            // 只有在章节记录包含实际数据时才保存
-            if (Object.keys(chapterRecord.wordRecords).length > 0) {
-                // 重新计算章节完成统计
-                const allWordRecords = Object.values(chapterRecord.wordRecords).filter((wr: any) => wr.practiceCount > 0);
-                const correctCounts = allWordRecords.map((wr: any) => wr.correctCount);
-                chapterRecord.chapterCompletionCount = correctCounts.length > 0 ? Math.min(...correctCounts) : 0;
-                chapterRecord.lastPracticeTime = new Date().toISOString();
-                await this.saveChapterRecord(dictId, chapterRecord, practiceMode);
+            // 直接读取主记录（loadMainRecord 会按传入的单词数更新单词总数）
+            const record = this.context.globalState.get<DictRecord>(this.getMainRecordKey(dictId, practiceMode));
+            if (!record) {
+                return;
             }
+            await this.saveMainRecord({ ...record, passSeed });
         } catch (error) {
-            console.error('记录章节完成失败:', error);
+            console.error('更新章节打乱种子失败:', error);
+        }
+    }
+
+    // 列出所有主记录（用于同步练习位置）
+    listMainRecords(): DictRecord[] {
+        const records: DictRecord[] = [];
+        for (const key of this.context.globalState.keys()) {
+            const record = MAIN_RECORD_KEY_PATTERN.test(key) ? this.context.globalState.get<DictRecord>(key) : undefined;
+            if (record) {
+                records.push(record);
+            }
+        }
+        return records;
+    }
+
+    // 列出所有单词记录存储（用于同步单词统计）
+    listWordStores(): { storeId: string; practiceMode: PracticeMode }[] {
+        const stores = new Map<string, { storeId: string; practiceMode: PracticeMode }>();
+        for (const key of this.context.globalState.keys()) {
+            const match = key.match(WORD_BUCKET_KEY_PATTERN);
+            if (match) {
+                stores.set(`${match[1]}.${match[2]}`, { storeId: match[1], practiceMode: match[2] as PracticeMode });
+            }
+        }
+        return Array.from(stores.values());
+    }
+
+    // 加载记录存储中的全部单词记录（按记录存储ID，不进行迁移）
+    loadStoreWordRecords(storeId: string, practiceMode: PracticeMode): WordRecordMap {
+        const keyPrefix = this.getWordBucketPrefix(storeId, practiceMode);
+        const wordRecords: WordRecordMap = {};
+        for (const key of this.context.globalState.keys()) {
+            if (key.startsWith(keyPrefix)) {
+                Object.assign(wordRecords, this.context.globalState.get<WordRecordMap>(key) || {});
+            }
+        }
+        return wordRecords;
+    }
+
+    // 将其他设备上新增的作答计数累加到单词记录中
+    async addSyncedWordCounts(storeId: string, practiceMode: PracticeMode, deltas: { [wordKey: string]: SyncWordCounts }): Promise<void> {
+        const buckets: { [bucketKey: string]: WordRecordMap } = {};
+        for (const [wordKey, [practiceCount, correctCount, errorCount, hintedCount, lastPracticeSeconds]] of Object.entries(deltas)) {
+            const bucketKey = this.getWordBucketKey(storeId, wordKey, practiceMode);
+            if (!buckets[bucketKey]) {
+                buckets[bucketKey] = { ...(this.context.globalState.get<WordRecordMap>(bucketKey) || {}) };
+            }
+            const lastPracticeTime = new Date(lastPracticeSeconds * 1000).toISOString();
+            buckets[bucketKey][wordKey] = mergeWordRecords(buckets[bucketKey][wordKey], {
+                word: buckets[bucketKey][wordKey]?.word || wordKey,
+                practiceCount,
+                correctCount,
+                errorCount,
+                lastPracticeTime,
+                correctRate: practiceCount > 0 ? (correctCount / practiceCount) * 100 : 0,
+                hintedCount
+            });
+        }
+        for (const [bucketKey, bucket] of Object.entries(buckets)) {
+            await this.context.globalState.update(bucketKey, bucket);
         }
     }
 
     // 更新章节循环设置
     async updateChapterLoop(dictId: string, chapterLoop: boolean, practiceMode: PracticeMode = 'normal'): Promise<void> {
         try {
-            const record = await this.loadMainRecord(dictId, '', 0, practiceMode);
-            record.chapterLoop = chapterLoop;
-            record.lastPracticeTime = new Date().toISOString();
-            await this.saveMainRecord(record);
+            const record = this.context.globalState.get<DictRecord>(this.getMainRecordKey(dictId, practiceMode));
+            if (!record) {
+                return;
+            }
+            await this.saveMainRecord({ ...record, chapterLoop, lastPracticeTime: new Date().toISOString() });
         } catch (error) {
             console.error('更新章节循环设置失败:', error);
         }
     }
-}
\ No newline at end of file
+}
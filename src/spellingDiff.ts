@@ -0,0 +1,76 @@
+// 拼写比对：按编辑距离（Levenshtein）对齐输入和单词，找出多输入、漏输入和输错的字母
+
+// 比对结果中的一步：相同、输错（替换）、多输入（插入）、漏输入（删除）
+export type SpellingDiffType = 'match' | 'substitute' | 'insert' | 'delete';
+
+export interface SpellingDiffOp {
+    type: SpellingDiffType;
+    expected: string;   // 单词中的字母（多输入时为空）
+    typed: string;      // 输入的字母（漏输入时为空）
+    position: number;   // 在单词中的位置（多输入时为其后一个字母的位置）
+}
+
+// 拼写评分结果
+export interface SpellingGrade {
+    isCorrect: boolean;     // 是否完全正确
+    distance: number;       // 编辑距离
+    score: number;          // 得分（0-1，1 - 编辑距离 / 较长一方的长度）
+    ops: SpellingDiffOp[];
+}
+
+// 计算输入与单词的对齐方式（不区分大小写）
+export function diffSpelling(expected: string, typed: string): SpellingDiffOp[] {
+    const a = expected.toLowerCase();
+    const b = typed.toLowerCase();
+
+    // distances[i][j]：单词前 i 个字母与输入前 j 个字母的编辑距离
+    const distances: number[][] = [];
+    for (let i = 0; i <= a.length; i++) {
+        distances.push([i]);
+        for (let j = 1; j <= b.length; j++) {
+            distances[i].push(i === 0 ? j : 0);
+        }
+    }
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            distances[i][j] = Math.min(
+                distances[i - 1][j - 1] + cost,
+                distances[i - 1][j] + 1,
+                distances[i][j - 1] + 1
+            );
+        }
+    }
+
+    // 从末尾回溯得到每一步
+    const ops: SpellingDiffOp[] = [];
+    let i = a.length;
+    let j = b.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0 && distances[i][j] === distances[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+            ops.push({ type: a[i - 1] === b[j - 1] ? 'match' : 'substitute', expected: expected[i - 1], typed: typed[j - 1], position: i - 1 });
+            i--;
+            j--;
+        } else if (i > 0 && distances[i][j] === distances[i - 1][j] + 1) {
+            ops.push({ type: 'delete', expected: expected[i - 1], typed: '', position: i - 1 });
+            i--;
+        } else {
+            ops.push({ type: 'insert', expected: '', typed: typed[j - 1], position: i });
+            j--;
+        }
+    }
+    return ops.reverse();
+}
+
+// 按编辑距离为输入评分
+export function gradeSpelling(expected: string, typed: string): SpellingGrade {
+    const ops = diffSpelling(expected, typed);
+    const distance = ops.filter(op => op.type !== 'match').length;
+    const length = Math.max(expected.length, typed.length);
+    return {
+        isCorrect: distance === 0,
+        distance,
+        score: length > 0 ? Math.round((1 - distance / length) * 100) / 100 : 0,
+        ops
+    };
+}
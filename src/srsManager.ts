@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { SrsState, PracticeMode, WordAttempt, HintType } from './types';
+import { getRecordStoreDictIds, resolveRecordStoreId } from './wordbooks';
+import { getCurrentPracticeDate } from './settings';
+import { addDays } from './dateUtils';
+
+// SM-2 算法参数
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// 每使用一次提示扣除的评分：显示字母比显示长度、音标扣得更多
+export const HINT_PENALTIES: { [hint in HintType]: number } = {
+    nextLetter: 2,
+    firstLetter: 2,
+    length: 1,
+    phonetics: 1
+};
+
+/**
+ * 间隔重复调度管理器
+ * 基于 SM-2 算法为每个单词维护难度系数、复习间隔和下次复习日期
+ */
+export class SrsManager {
+    private context: vscode.ExtensionContext;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+    }
+
+    // 获取当天日期字符串 (YYYY-MM-DD，本地时间，按换日时间划分)
+    private async getCurrentDate(): Promise<string> {
+        return await getCurrentPracticeDate(this.context);
+    }
+
+    // 获取调度状态的 globalState 键名（按记录存储ID和模式区分）
+    private getSrsKey(storeId: string, practiceMode: PracticeMode): string {
+        return `enpractice.srs.${storeId}.${practiceMode}`;
+    }
+
+    // 获取词典共享的调度状态键名，并合并同源词书此前各自保存的调度状态（保留最近复习的状态）
+    private async getStoreSrsKey(dictId: string, practiceMode: PracticeMode): Promise<string> {
+        const storeId = await resolveRecordStoreId(this.context, dictId);
+        const storeKey = this.getSrsKey(storeId, practiceMode);
+        const variantIds = new Set([dictId, ...await getRecordStoreDictIds(this.context, storeId)]);
+        variantIds.delete(storeId);
+
+        for (const variantId of variantIds) {
+            const variantKey = this.getSrsKey(variantId, practiceMode);
+            const variantStates = this.context.globalState.get<{ [word: string]: SrsState }>(variantKey);
+            if (!variantStates) {
+                continue;
+            }
+
+            const states = { ...(this.context.globalState.get<{ [word: string]: SrsState }>(storeKey) || {}) };
+            for (const [word, state] of Object.entries(variantStates)) {
+                if (!states[word] || states[word].lastReviewTime < state.lastReviewTime) {
+                    states[word] = state;
+                }
+            }
+            await this.context.globalState.update(storeKey, states);
+            await this.context.globalState.update(variantKey, undefined);
+        }
+        return storeKey;
+    }
+
+    // 加载词典的全部调度状态
+    async loadSrsStates(dictId: string, practiceMode: PracticeMode = 'normal'): Promise<{ [word: string]: SrsState }> {
+        try {
+            const states = this.context.globalState.get<{ [word: string]: SrsState }>(await this.getStoreSrsKey(dictId, practiceMode));
+            return { ...(states || {}) };
+        } catch (error) {
+            console.error(`读取复习调度失败: ${dictId} - ${practiceMode}模式`, error);
+            return {};
+        }
+    }
+
+    // 根据作答情况转换为 SM-2 评分（0-5）：一次通过为4，出错1次为2，出错更多为1，再按使用的提示扣分
+    public static qualityFromAttempt(attempt: WordAttempt): number {
+        const quality = attempt.firstTryClean ? 4 : (attempt.mistakes <= 1 ? 2 : 1);
+        const penalty = (attempt.hints || []).reduce((sum, hint) => sum + HINT_PENALTIES[hint], 0);
+        return Math.max(0, quality - penalty);
+    }
+
+    // 按 SM-2 规则计算新的调度状态
+    public static schedule(state: SrsState, quality: number, today: string): SrsState {
+        const next: SrsState = { ...state, lastReviewTime: new Date().toISOString() };
+
+        if (quality < 3) {
+            // 回答错误：从头开始复习，难度系数保持不变
+            next.repetitions = 0;
+            next.interval = 1;
+        } else {
+            next.repetitions = state.repetitions + 1;
+            if (next.repetitions === 1) {
+                next.interval = 1;
+            } else if (next.repetitions === 2) {
+                next.interval = 6;
+            } else {
+                next.interval = Math.round(state.interval * state.easeFactor);
+            }
+            next.easeFactor = Math.max(
+                MIN_EASE_FACTOR,
+                state.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+            );
+        }
+
+        next.dueDate = addDays(today, next.interval);
+        return next;
+    }
+
+    // 记录一次复习结果并更新调度
+    async recordReview(dictId: string, word: string, quality: number, practiceMode: PracticeMode = 'normal'): Promise<SrsState | undefined> {
+        try {
+            const states = await this.loadSrsStates(dictId, practiceMode);
+            const today = await this.getCurrentDate();
+            const current: SrsState = states[word] || {
+                word,
+                easeFactor: DEFAULT_EASE_FACTOR,
+                interval: 0,
+                repetitions: 0,
+                dueDate: today,
+                lastReviewTime: new Date().toISOString()
+            };
+
+            states[word] = SrsManager.schedule(current, quality, today);
+            await this.context.globalState.update(await this.getStoreSrsKey(dictId, practiceMode), states);
+            return states[word];
+        } catch (error) {
+            console.error(`更新复习调度失败: ${dictId}, 单词: ${word}`, error);
+            return undefined;
+        }
+    }
+
+    // 获取今天到期的单词（按到期日期升序，难度系数低的优先）
+    async getDueWords(dictId: string, practiceMode: PracticeMode = 'normal'): Promise<SrsState[]> {
+        const states = await this.loadSrsStates(dictId, practiceMode);
+        const today = await this.getCurrentDate();
+
+        return Object.values(states)
+            .filter(state => state.dueDate <= today)
+            .sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.easeFactor - b.easeFactor);
+    }
+}
@@ -0,0 +1,338 @@
+import * as vscode from 'vscode';
+import { BookSettings, DEFAULT_WORDS_PER_CHAPTER, PRACTICE_MODES, SyncDeviceSummary, SyncSummary, SyncWordCounts, createDefaultDictRecord } from './types';
+import { ShardedRecordManager } from './shardedRecordManager';
+import { getBookWordsPerChapter, getSettings, saveSettings } from './settings';
+import { IMPORT_MERGED_KEY, ImportedCounts, getMergedWordCounts } from './dataMerge';
+
+// 同步摘要的 globalState 键名（开启同步后通过 setKeysForSync 交给 Settings Sync 同步）
+export const SYNC_SUMMARY_KEY = 'enpractice.sync.summary';
+
+// 已合并的其他设备计数（只保存在本机，用于计算其他设备新增的作答）
+const SYNC_MERGED_KEY = 'enpractice.sync.merged';
+
+// 同步摘要格式版本
+const SYNC_SUMMARY_VERSION = 1;
+
+// 同步摘要的大小上限（字节），由各设备平分；超出时只保留最近练习的单词
+const MAX_SYNC_SUMMARY_BYTES = 200 * 1024;
+
+// 超过该天数未更新的设备从同步摘要中移除
+const SYNC_DEVICE_EXPIRE_DAYS = 180;
+
+// 定时同步的间隔（毫秒）
+const SYNC_INTERVAL = 5 * 60 * 1000;
+
+// 窗口状态变化触发同步的最小间隔（毫秒），频繁切换窗口时不重复同步
+const WINDOW_SYNC_MIN_INTERVAL = 60 * 1000;
+
+// 作答计数的数量（SyncWordCounts 的最后一项为练习时间）
+// 只同步作答、正确、错误和使用提示的次数，用时、速度和输错次数等统计只保存在各自的设备上
+const COUNTER_LENGTH = 4;
+
+// 已合并的计数：设备ID -> 练习模式 -> 记录存储ID -> 单词标识 -> 计数
+type MergedCounts = { [deviceId: string]: SyncDeviceSummary['words'] };
+
+// ISO 时间转为秒级时间戳
+function toSeconds(time: string): number {
+    const value = Date.parse(time);
+    return Number.isFinite(value) ? Math.floor(value / 1000) : 0;
+}
+
+/**
+ * 同步管理器
+ * 开启同步后将练习位置、词书单独设置和单词统计写入同步摘要，由 Settings Sync 在设备之间同步
+ * 摘要按设备保存各自的作答计数，合并时只累加其他设备新增的部分；练习位置和词书设置以较新的为准
+ * 单词统计只同步作答、正确、错误和使用提示的次数，用时、速度和输错次数不同步
+ */
+export class SyncManager implements vscode.Disposable {
+    private context: vscode.ExtensionContext;
+    private recordManager: ShardedRecordManager;
+    private timer: NodeJS.Timeout | undefined;
+    private windowStateListener: vscode.Disposable | undefined;
+    private syncing = false;
+    private lastSyncTime = 0;
+    private onDidMerge: (() => void) | undefined;
+
+    constructor(context: vscode.ExtensionContext) {
+        this.context = context;
+        this.recordManager = new ShardedRecordManager(context);
+    }
+
+    // 设置合并其他设备的数据后的回调函数（用于刷新练习面板）
+    public setOnDidMergeCallback(callback: () => void) {
+        this.onDidMerge = callback;
+    }
+
+    // 按设置开启或关闭同步（设置变化后再次调用）
+    public async start(): Promise<void> {
+        this.stop();
+        const settings = await getSettings(this.context);
+        if (!settings.syncEnabled) {
+            this.context.globalState.setKeysForSync([]);
+            return;
+        }
+
+        this.context.globalState.setKeysForSync([SYNC_SUMMARY_KEY]);
+        this.timer = setInterval(() => {
+            this.sync();
+        }, SYNC_INTERVAL);
+        // Settings Sync 在后台更新摘要，窗口获得焦点时合并；窗口失去焦点时发布本机的练习数据
+        this.windowStateListener = vscode.window.onDidChangeWindowState(() => {
+            if (Date.now() - this.lastSyncTime >= WINDOW_SYNC_MIN_INTERVAL) {
+                this.sync();
+            }
+        });
+        await this.sync();
+    }
+
+    private stop() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+        if (this.windowStateListener) {
+            this.windowStateListener.dispose();
+            this.windowStateListener = undefined;
+        }
+    }
+
+    public dispose() {
+        this.stop();
+    }
+
+    // 合并其他设备的练习数据，再发布本机的练习数据，返回是否合并了新的数据
+    public async sync(): Promise<boolean> {
+        if (this.syncing) {
+            return false;
+        }
+
+        this.syncing = true;
+        this.lastSyncTime = Date.now();
+        try {
+            const settings = await getSettings(this.context);
+            if (!settings.syncEnabled) {
+                return false;
+            }
+
+            const summary = this.loadSummary();
+            const merged = await this.mergeRemoteDevices(summary);
+            await this.publish(summary);
+            if (merged && this.onDidMerge) {
+                this.onDidMerge();
+            }
+            return merged;
+        } catch (error) {
+            console.error('同步练习数据失败:', error);
+            return false;
+        } finally {
+            this.syncing = false;
+        }
+    }
+
+    // 读取同步摘要（格式版本不同时视为空）
+    private loadSummary(): SyncSummary {
+        const summary = this.context.globalState.get<SyncSummary>(SYNC_SUMMARY_KEY);
+        if (!summary || summary.version !== SYNC_SUMMARY_VERSION || !summary.devices) {
+            return { version: SYNC_SUMMARY_VERSION, devices: {} };
+        }
+        return summary;
+    }
+
+    // 合并其他设备的数据：单词统计累加新增的作答，练习位置和词书设置以较新的为准
+    private async mergeRemoteDevices(summary: SyncSummary): Promise<boolean> {
+        const deviceId = vscode.env.machineId;
+        const mergedCounts: MergedCounts = { ...(this.context.globalState.get<MergedCounts>(SYNC_MERGED_KEY) || {}) };
+        const importedCounts = this.context.globalState.get<ImportedCounts>(IMPORT_MERGED_KEY) || {};
+        let changed = false;
+
+        for (const [remoteId, device] of Object.entries(summary.devices)) {
+            if (remoteId === deviceId) {
+                continue;
+            }
+
+            const seen = mergedCounts[remoteId] = { ...mergedCounts[remoteId] };
+            for (const practiceMode of PRACTICE_MODES) {
+                for (const [storeId, words] of Object.entries((device.words || {})[practiceMode] || {})) {
+                    const seenWords = { ...(seen[practiceMode] || {})[storeId] };
+                    const deltas: { [wordKey: string]: SyncWordCounts } = {};
+                    for (const [wordKey, counts] of Object.entries(words)) {
+                        const previous = seenWords[wordKey] || [0, 0, 0, 0, 0];
+                        // 已通过导入数据合并的作答不再累加
+                        const imported = getMergedWordCounts({}, importedCounts, remoteId, practiceMode, storeId, wordKey);
+                        // 计数只增不减：设备上的摘要被旧版本覆盖时不会扣减已合并的作答
+                        const delta = counts.map((count, index) => index < COUNTER_LENGTH ? Math.max(0, count - Math.max(previous[index], imported[index])) : count) as SyncWordCounts;
+                        if (delta.slice(0, COUNTER_LENGTH).some(count => count > 0)) {
+                            deltas[wordKey] = delta;
+                        }
+                        seenWords[wordKey] = counts.map((count, index) => Math.max(count, previous[index])) as SyncWordCounts;
+                    }
+                    seen[practiceMode] = { ...seen[practiceMode], [storeId]: seenWords };
+                    if (Object.keys(deltas).length > 0) {
+                        await this.recordManager.addSyncedWordCounts(storeId, practiceMode, deltas);
+                        changed = true;
+                    }
+                }
+            }
+        }
+        await this.context.globalState.update(SYNC_MERGED_KEY, mergedCounts);
+
+        const otherDevices = Object.entries(summary.devices)
+            .filter(([remoteId]) => remoteId !== deviceId)
+            .map(([, device]) => device);
+        if (await this.mergePositions(otherDevices)) {
+            changed = true;
+        }
+        if (await this.mergeBookSettings(otherDevices)) {
+            changed = true;
+        }
+        return changed;
+    }
+
+    // 合并练习位置：其他设备上较晚练习的位置生效（按单词位置换算为本机的章节）
+    private async mergePositions(devices: SyncDeviceSummary[]): Promise<boolean> {
+        const settings = await getSettings(this.context);
+        const localRecords = this.recordManager.listMainRecords();
+        let changed = false;
+
+        for (const practiceMode of PRACTICE_MODES) {
+            const latest: { [dictId: string]: [number, number, string] } = {};
+            for (const device of devices) {
+                for (const [dictId, position] of Object.entries((device.positions || {})[practiceMode] || {})) {
+                    if (!latest[dictId] || position[1] > latest[dictId][1]) {
+                        latest[dictId] = position;
+                    }
+                }
+            }
+
+            for (const [dictId, [wordPosition, lastPracticeSeconds, dictName]] of Object.entries(latest)) {
+                const local = localRecords.find(record => record.dictId === dictId && record.practiceMode === practiceMode);
+                if (local && toSeconds(local.lastPracticeTime) >= lastPracticeSeconds) {
+                    continue;
+                }
+
+                // 本机还没有练习过该词书时创建主记录（单词总数在加载词书时更新）
+                const record = local || createDefaultDictRecord(dictId, dictName, 0, practiceMode, getBookWordsPerChapter(settings, dictId));
+                const wordsPerChapter = record.wordsPerChapter || DEFAULT_WORDS_PER_CHAPTER;
+                record.currentChapter = Math.floor(wordPosition / wordsPerChapter) + 1;
+                record.currentWordIndex = wordPosition % wordsPerChapter;
+                record.lastPracticeTime = new Date(lastPracticeSeconds * 1000).toISOString();
+                await this.recordManager.saveMainRecord(record);
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    // 合并词书单独设置：每本词书以较晚修改的设置为准
+    private async mergeBookSettings(devices: SyncDeviceSummary[]): Promise<boolean> {
+        const settings = await getSettings(this.context);
+        const bookSettings: { [dictId: string]: BookSettings } = { ...settings.bookSettings };
+        let changed = false;
+
+        for (const device of devices) {
+            for (const [dictId, remote] of Object.entries(device.bookSettings || {})) {
+                const local = bookSettings[dictId];
+                if (remote.updatedAt && (!local || !local.updatedAt || remote.updatedAt > local.updatedAt)) {
+                    bookSettings[dictId] = { ...remote };
+                    changed = true;
+                }
+            }
+        }
+
+        if (changed) {
+            await saveSettings(this.context, { ...settings, bookSettings });
+            // 每章单词数变化后换算练习位置
+            for (const dictId of Object.keys(bookSettings)) {
+                await this.recordManager.ensureChapterLayout(dictId);
+            }
+        }
+        return changed;
+    }
+
+    // 发布本机的练习数据（内容没有变化时不写入，避免不必要的同步）
+    private async publish(summary: SyncSummary): Promise<void> {
+        const deviceId = vscode.env.machineId;
+        const expireTime = Date.now() - SYNC_DEVICE_EXPIRE_DAYS * 24 * 60 * 60 * 1000;
+        const devices: { [deviceId: string]: SyncDeviceSummary } = {};
+        for (const [remoteId, device] of Object.entries(summary.devices)) {
+            if (remoteId !== deviceId && Date.parse(device.updatedAt) > expireTime) {
+                devices[remoteId] = device;
+            }
+        }
+
+        const budget = Math.floor(MAX_SYNC_SUMMARY_BYTES / (Object.keys(devices).length + 1));
+        const device = await this.buildDeviceSummary(budget);
+        const previous = summary.devices[deviceId];
+        const unchanged = previous
+            && Object.keys(devices).length + 1 === Object.keys(summary.devices).length
+            && JSON.stringify({ ...previous, updatedAt: '' }) === JSON.stringify({ ...device, updatedAt: '' });
+        if (unchanged) {
+            return;
+        }
+
+        devices[deviceId] = device;
+        await this.context.globalState.update(SYNC_SUMMARY_KEY, { version: SYNC_SUMMARY_VERSION, devices });
+    }
+
+    // 生成本机的同步数据：单词统计只包含本机的作答（单词记录中的计数减去通过同步和导入合并的其他设备计数）
+    private async buildDeviceSummary(budget: number): Promise<SyncDeviceSummary> {
+        const settings = await getSettings(this.context);
+        const mergedCounts = this.context.globalState.get<MergedCounts>(SYNC_MERGED_KEY) || {};
+        const importedCounts = this.context.globalState.get<ImportedCounts>(IMPORT_MERGED_KEY) || {};
+        const otherDeviceIds = new Set([...Object.keys(mergedCounts), ...Object.keys(importedCounts)]);
+
+        const positions: SyncDeviceSummary['positions'] = {};
+        for (const record of this.recordManager.listMainRecords()) {
+            const wordPosition = (record.currentChapter - 1) * (record.wordsPerChapter || DEFAULT_WORDS_PER_CHAPTER) + record.currentWordIndex;
+            positions[record.practiceMode] = {
+                ...positions[record.practiceMode],
+                [record.dictId]: [wordPosition, toSeconds(record.lastPracticeTime), record.dictName]
+            };
+        }
+
+        const bookSettings: { [dictId: string]: BookSettings } = {};
+        for (const [dictId, book] of Object.entries(settings.bookSettings)) {
+            if (book.updatedAt) {
+                bookSettings[dictId] = book;
+            }
+        }
+
+        const entries: { practiceMode: string; storeId: string; wordKey: string; counts: SyncWordCounts }[] = [];
+        for (const { storeId, practiceMode } of this.recordManager.listWordStores()) {
+            for (const [wordKey, record] of Object.entries(this.recordManager.loadStoreWordRecords(storeId, practiceMode))) {
+                const own = [record.practiceCount, record.correctCount, record.errorCount, record.hintedCount || 0];
+                for (const otherDeviceId of otherDeviceIds) {
+                    const counts = getMergedWordCounts(mergedCounts, importedCounts, otherDeviceId, practiceMode, storeId, wordKey);
+                    counts.slice(0, COUNTER_LENGTH).forEach((count, index) => own[index] -= count);
+                }
+                if (own[0] > 0) {
+                    const counts = [...own.map(count => Math.max(0, count)), toSeconds(record.lastPracticeTime)] as SyncWordCounts;
+                    entries.push({ practiceMode, storeId, wordKey, counts });
+                }
+            }
+        }
+
+        // 超出大小上限时只保留最近练习的单词（其他设备已合并的计数不受影响）
+        const device: SyncDeviceSummary = { updatedAt: new Date().toISOString(), positions, bookSettings, words: {} };
+        let size = Buffer.byteLength(JSON.stringify(device));
+        entries.sort((a, b) => b.counts[COUNTER_LENGTH] - a.counts[COUNTER_LENGTH]);
+        for (const { practiceMode, storeId, wordKey, counts } of entries) {
+            const modeWords = device.words[practiceMode] = device.words[practiceMode] || {};
+            const entrySize = Buffer.byteLength(`${JSON.stringify(wordKey)}:${JSON.stringify(counts)},`)
+                + (modeWords[storeId] ? 0 : Buffer.byteLength(`${JSON.stringify(practiceMode)}:{${JSON.stringify(storeId)}:{}},`));
+            if (size + entrySize > budget) {
+                break;
+            }
+            modeWords[storeId] = modeWords[storeId] || {};
+            modeWords[storeId][wordKey] = counts;
+            size += entrySize;
+        }
+        // 删除没有单词的练习模式
+        for (const practiceMode of Object.keys(device.words)) {
+            if (Object.keys(device.words[practiceMode]).length === 0) {
+                delete device.words[practiceMode];
+            }
+        }
+        return device;
+    }
+}
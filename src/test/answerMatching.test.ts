@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { AnswerMatchOptions, foldAnswer, getAnswerKey, getFoldingScript, getFormTarget } from '../answerMatching';
+
+const strict: AnswerMatchOptions = { ignoreDiacritics: false, ignorePunctuation: false };
+const loose: AnswerMatchOptions = { ignoreDiacritics: true, ignorePunctuation: true };
+
+test('规范化大小写、弯引号、连字符和空格', () => {
+    assert.equal(foldAnswer('  Café  au   lait ', strict), 'café au lait');
+    assert.equal(foldAnswer('don’t', strict), 'don\'t');
+    assert.equal(foldAnswer('well–known', strict), 'well-known');
+});
+
+test('组合字符按 NFC 统一后与预组合字符相同', () => {
+    assert.equal(foldAnswer('cafe\u0301', strict), foldAnswer('caf\u00e9', strict));
+});
+
+test('可选忽略重音符号和标点', () => {
+    assert.equal(foldAnswer('Café', loose), 'cafe');
+    assert.equal(foldAnswer('rock \'n\' roll', loose), 'rock n roll');
+    assert.equal(foldAnswer('Café', strict), 'café');
+});
+
+test('判定依据中忽略的字符不需要输入，短语末尾和连续的空格只计一次', () => {
+    const key = getAnswerKey({ name: 'Mother-in-law', trans: [], usphone: '', ukphone: '' }, loose);
+    assert.equal(getFormTarget(key), 'motherinlaw');
+    assert.equal(key.chars.length, 13);
+    // 每个需要输入的字符对应显示的字母位置（跳过连字符）
+    assert.deepEqual(key.units.slice(5, 8).map(unit => unit.index), [5, 7, 8]);
+
+    const phrase = getAnswerKey({ name: 'ice  cream ', trans: [], usphone: '', ukphone: '' }, strict);
+    assert.equal(getFormTarget(phrase), 'ice cream');
+});
+
+test('变体拼写去除空白、重复和与标准拼写相同的条目', () => {
+    const key = getAnswerKey({
+        name: 'colour',
+        trans: [],
+        usphone: '',
+        ukphone: '',
+        variants: ['color', 'Colour', ' ', 'COLOR', ' colors ']
+    }, strict);
+    assert.deepEqual(key.variants.map(getFormTarget), ['color', 'colors']);
+});
+
+test('练习界面嵌入的规范化代码与扩展中的判定结果相同', () => {
+    const webviewFold = new Function(`${getFoldingScript()}\nreturn foldAnswer;`)() as typeof foldAnswer;
+    for (const text of ['  Café  au   lait ', 'don’t', 'well–known', 'rock \'n\' roll', 'naïve résumé']) {
+        for (const options of [strict, loose]) {
+            assert.equal(webviewFold(text, options), foldAnswer(text, options));
+        }
+    }
+});
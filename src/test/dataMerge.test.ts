@@ -0,0 +1,122 @@
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { EXPORT_DEVICE_KEY, MergePlan, StoredData, planMergeImport } from '../dataMerge';
+import { WordRecord } from '../types';
+
+const WORDS_KEY = 'enpractice.records.cet4.normal.words.a';
+const DAY_KEY = 'enpractice.dayRecords.2026-03-01';
+
+function wordRecord(practiceCount: number, correctCount: number, lastPracticeTime: string): WordRecord {
+    return {
+        word: 'apple',
+        practiceCount,
+        correctCount,
+        errorCount: practiceCount - correctCount,
+        lastPracticeTime,
+        correctRate: (correctCount / practiceCount) * 100
+    };
+}
+
+function dayRecord(...times: string[]) {
+    return {
+        date: '2026-03-01',
+        words: times.map(practiceTime => ({
+            word: 'apple', translation: '', usphone: '', ukphone: '', dictId: 'cet4', dictName: 'CET-4',
+            chapterNumber: 1, practiceTime, isCorrect: true, mistakes: 0, firstTryClean: true
+        }))
+    };
+}
+
+// 按计划写入本机数据
+function apply(current: StoredData, plan: MergePlan): StoredData {
+    const result = { ...current };
+    for (const change of plan.changes) {
+        if (change.value === undefined) {
+            delete result[change.key];
+        } else {
+            result[change.key] = change.value;
+        }
+    }
+    return result;
+}
+
+function exportFrom(data: StoredData, deviceId?: string): StoredData {
+    return deviceId ? { ...data, [EXPORT_DEVICE_KEY]: deviceId } : { ...data };
+}
+
+test('重复导入同一个文件不重复累加', () => {
+    const local: StoredData = { [WORDS_KEY]: { apple: wordRecord(2, 1, '2026-03-01T08:00:00.000Z') } };
+    const file = exportFrom({
+        [WORDS_KEY]: { apple: wordRecord(3, 3, '2026-03-01T09:00:00.000Z') },
+        [DAY_KEY]: dayRecord('2026-03-01T09:00:00.000Z')
+    }, 'device-a');
+
+    const once = apply(local, planMergeImport(local, file, 'device-b'));
+    assert.equal(once[WORDS_KEY].apple.practiceCount, 5);
+    assert.equal(once[WORDS_KEY].apple.correctCount, 4);
+    assert.equal(once[DAY_KEY].words.length, 1);
+
+    const again = planMergeImport(once, file, 'device-b');
+    assert.deepEqual(again.changes, []);
+});
+
+test('再次导入同一设备的新导出只累加新增的作答', () => {
+    const local: StoredData = {};
+    const first = exportFrom({ [WORDS_KEY]: { apple: wordRecord(3, 2, '2026-03-01T09:00:00.000Z') } }, 'device-a');
+    const later = exportFrom({ [WORDS_KEY]: { apple: wordRecord(5, 4, '2026-03-02T09:00:00.000Z') } }, 'device-a');
+
+    const merged = apply(local, planMergeImport(local, first, 'device-b'));
+    const result = apply(merged, planMergeImport(merged, later, 'device-b'));
+    assert.equal(result[WORDS_KEY].apple.practiceCount, 5);
+    assert.equal(result[WORDS_KEY].apple.correctCount, 4);
+    assert.equal(result[WORDS_KEY].apple.lastPracticeTime, '2026-03-02T09:00:00.000Z');
+});
+
+test('导入本机以前导出的文件不累加本机自己的作答', () => {
+    const local: StoredData = { [WORDS_KEY]: { apple: wordRecord(4, 3, '2026-03-02T09:00:00.000Z') } };
+    const oldExport = exportFrom({ [WORDS_KEY]: { apple: wordRecord(2, 1, '2026-03-01T09:00:00.000Z') } }, 'device-b');
+
+    const plan = planMergeImport(local, oldExport, 'device-b');
+    assert.equal(plan.changes.some(change => change.key === WORDS_KEY), false);
+});
+
+test('导出设备合并过的其他设备作答按来源设备去重', () => {
+    // A 导出给 B，B 练习后再导出给 A：A 只累加 B 自己的作答
+    const deviceA: StoredData = { [WORDS_KEY]: { apple: wordRecord(4, 4, '2026-03-01T09:00:00.000Z') } };
+    let deviceB: StoredData = {};
+    deviceB = apply(deviceB, planMergeImport(deviceB, exportFrom(deviceA, 'device-a'), 'device-b'));
+    deviceB[WORDS_KEY] = { apple: { ...deviceB[WORDS_KEY].apple, practiceCount: 7, correctCount: 6, errorCount: 1 } };
+
+    const result = apply(deviceA, planMergeImport(deviceA, exportFrom(deviceB, 'device-b'), 'device-a'));
+    assert.equal(result[WORDS_KEY].apple.practiceCount, 7);
+    assert.equal(result[WORDS_KEY].apple.correctCount, 6);
+});
+
+test('没有导出设备的旧版文件重复导入也不重复累加', () => {
+    const local: StoredData = {};
+    const legacyFile = exportFrom({ [WORDS_KEY]: { apple: wordRecord(3, 2, '2026-03-01T09:00:00.000Z') } });
+
+    const once = apply(local, planMergeImport(local, legacyFile, 'device-b'));
+    assert.equal(once[WORDS_KEY].apple.practiceCount, 3);
+    assert.deepEqual(planMergeImport(once, legacyFile, 'device-b').changes, []);
+});
+
+test('每日记录按作答合并，不导入导出设备的同步和导入状态', () => {
+    const local: StoredData = { [DAY_KEY]: dayRecord('2026-03-01T08:00:00.000Z', '2026-03-01T09:00:00.000Z') };
+    const file = exportFrom({
+        [DAY_KEY]: dayRecord('2026-03-01T09:00:00.000Z', '2026-03-01T10:00:00.000Z'),
+        'enpractice.sync.summary': { version: 1, devices: {} },
+        'enpractice.sync.merged': {},
+        'enpractice.dayRecords.dayBoundary': 4
+    }, 'device-a');
+
+    const result = apply(local, planMergeImport(local, file, 'device-b'));
+    assert.deepEqual(result[DAY_KEY].words.map((word: { practiceTime: string }) => word.practiceTime), [
+        '2026-03-01T08:00:00.000Z', '2026-03-01T09:00:00.000Z', '2026-03-01T10:00:00.000Z'
+    ]);
+    assert.equal('enpractice.sync.summary' in result, false);
+    assert.equal('enpractice.sync.merged' in result, false);
+    assert.equal('enpractice.dayRecords.dayBoundary' in result, false);
+    assert.equal(EXPORT_DEVICE_KEY in result, false);
+});
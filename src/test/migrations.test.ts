@@ -0,0 +1,106 @@
+import { MemoryState } from './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY, runMigrations, upgradeImportData } from '../migrations';
+
+// 添加数据版本之前（版本 0）导出的数据
+function legacyData(): { [key: string]: any } {
+    return {
+        'enpractice.records.cet4.normal.main': {
+            dictId: 'cet4', dictName: 'CET-4', practiceMode: 'normal', currentChapter: 3, currentWordIndex: 2,
+            chapterRecords: {
+                1: { chapterNumber: 1, wordRecords: { apple: { word: 'apple', practiceCount: 3, correctCount: 1, errorCount: 2, lastPracticeTime: '2026-03-01T09:00:00.000Z', correctRate: 33 } } }
+            },
+            globalStats: { totalWords: 1 }
+        },
+        'enpractice.records.nce1-shuffled.normal.main': {
+            dictId: 'nce1-shuffled', dictName: '新概念一（乱序）', practiceMode: 'normal', currentChapter: 4, currentWordIndex: 5
+        },
+        'enpractice.records.cet4.normal.words.b': {
+            bee: { word: 'bee', practiceCount: 4, correctCount: 2, errorCount: 2, lastPracticeTime: '2026-03-01T09:00:00.000Z', correctRate: 50 }
+        },
+        'enpractice.dayRecords.2026-03-01': {
+            date: '2026-03-01',
+            words: [
+                { word: 'bee', dictId: 'cet4', practiceTime: '2026-03-01T08:00:00.000Z', isCorrect: false },
+                { word: 'bee', dictId: 'cet4', practiceTime: '2026-03-01T08:00:01.000Z', isCorrect: false },
+                { word: 'bee', dictId: 'cet4', practiceTime: '2026-03-01T08:00:02.000Z', isCorrect: true },
+                { word: 'bee', dictId: 'cet4', practiceTime: '2026-03-01T09:00:00.000Z', isCorrect: true }
+            ]
+        },
+        'enpractice.dayRecords.totalRecords': [
+            { date: '2026-03-02', analysisGenerated: false },
+            { date: '2026-03-01', analysisGenerated: true },
+            { date: '2026-03-02', analysisGenerated: true },
+            { date: 'invalid' }
+        ],
+        'enpractice.dayRecords.attemptModel': true
+    };
+}
+
+test('版本 0 的导出数据升级到当前版本', async () => {
+    const data = await upgradeImportData(legacyData());
+    assert.equal(data[SCHEMA_VERSION_KEY], CURRENT_SCHEMA_VERSION);
+
+    // 版本 1：内嵌的章节记录转存为旧版章节记录
+    assert.deepEqual(Object.keys(data['enpractice.records.cet4.normal.main']).sort(),
+        ['currentChapter', 'currentWordIndex', 'dictId', 'dictName', 'practiceMode']);
+    assert.equal(data['enpractice.records.cet4.normal.ch1'].wordRecords.apple.word, 'apple');
+
+    // 版本 2：按键级记录合并为作答
+    const attempts = data['enpractice.dayRecords.2026-03-01'].words;
+    assert.deepEqual(attempts.map((word: any) => [word.mistakes, word.firstTryClean]), [[2, false], [0, true]]);
+    assert.equal('enpractice.dayRecords.attemptModel' in data, false);
+
+    // 版本 3：总记录去重排序
+    assert.deepEqual(data['enpractice.dayRecords.totalRecords'], [
+        { date: '2026-03-01', analysisGenerated: true },
+        { date: '2026-03-02', analysisGenerated: true }
+    ]);
+
+    // 版本 4：乱序词书的练习位置重置，其他词书不变
+    assert.equal(data['enpractice.records.nce1-shuffled.normal.main'].currentChapter, 1);
+    assert.equal(data['enpractice.records.nce1-shuffled.normal.main'].currentWordIndex, 0);
+    assert.equal(data['enpractice.records.cet4.normal.main'].currentChapter, 3);
+
+    // 版本 5：按键级计数换算为作答计数（有每日记录覆盖的单词按作答记录计算）
+    assert.deepEqual(data['enpractice.records.cet4.normal.words.b'].bee, {
+        word: 'bee', practiceCount: 2, correctCount: 1, errorCount: 1, mistakeCount: 2,
+        lastPracticeTime: '2026-03-01T09:00:00.000Z', correctRate: 50
+    });
+    const apple = data['enpractice.records.cet4.normal.ch1'].wordRecords.apple;
+    assert.deepEqual([apple.practiceCount, apple.correctCount, apple.errorCount, apple.mistakeCount], [1, 0, 1, 2]);
+});
+
+test('升级导入数据不修改传入的对象', async () => {
+    const original = legacyData();
+    const snapshot = JSON.stringify(original);
+    await upgradeImportData(original);
+    assert.equal(JSON.stringify(original), snapshot);
+});
+
+test('拒绝无效或来自更新版本的导入数据', async () => {
+    await assert.rejects(upgradeImportData([]), /不是导出的数据/);
+    await assert.rejects(upgradeImportData({ other: 1 }), /没有 EnPractice 的数据/);
+    await assert.rejects(upgradeImportData({ [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION + 1 }), /高于当前插件支持的版本/);
+    await assert.rejects(upgradeImportData({ [SCHEMA_VERSION_KEY]: -1 }), /数据版本无效/);
+    await assert.rejects(upgradeImportData({ 'enpractice.dayRecords.2026-03-01': { words: 'x' } }), /数据格式不正确/);
+});
+
+test('激活时的迁移返回需要提示的消息，已是当前版本时不再执行', async () => {
+    const state = new MemoryState(legacyData());
+    const notices = await runMigrations(state);
+    assert.equal(notices.length, 1);
+    assert.match(notices[0], /新概念一（乱序）/);
+    assert.equal(state.get(SCHEMA_VERSION_KEY), CURRENT_SCHEMA_VERSION);
+
+    const migrated = JSON.stringify(state.toObject());
+    assert.deepEqual(await runMigrations(state), []);
+    assert.equal(JSON.stringify(state.toObject()), migrated);
+});
+
+test('来自更新版本插件的数据保持不变', async () => {
+    const state = new MemoryState({ [SCHEMA_VERSION_KEY]: CURRENT_SCHEMA_VERSION + 1, 'enpractice.dayRecords.totalRecords': [{ date: 'x' }] });
+    assert.deepEqual(await runMigrations(state), []);
+    assert.deepEqual(state.get('enpractice.dayRecords.totalRecords'), [{ date: 'x' }]);
+});
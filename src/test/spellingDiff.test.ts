@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { diffSpelling, gradeSpelling } from '../spellingDiff';
+
+test('完全正确的输入不区分大小写', () => {
+    const grade = gradeSpelling('Apple', 'aPPLE');
+    assert.equal(grade.isCorrect, true);
+    assert.equal(grade.distance, 0);
+    assert.equal(grade.score, 1);
+    assert.ok(grade.ops.every(op => op.type === 'match'));
+});
+
+test('输错的字母记为替换并保留原来的大小写', () => {
+    const ops = diffSpelling('Cat', 'Cut');
+    assert.deepEqual(ops.filter(op => op.type !== 'match'), [
+        { type: 'substitute', expected: 'a', typed: 'u', position: 1 }
+    ]);
+});
+
+test('漏输入和多输入的字母记录在单词中的位置', () => {
+    assert.deepEqual(diffSpelling('apple', 'aple').filter(op => op.type !== 'match'), [
+        { type: 'delete', expected: 'p', typed: '', position: 1 }
+    ]);
+    assert.deepEqual(diffSpelling('cat', 'cats').filter(op => op.type !== 'match'), [
+        { type: 'insert', expected: '', typed: 's', position: 3 }
+    ]);
+});
+
+test('得分按较长一方的长度计算', () => {
+    const grade = gradeSpelling('receive', 'recieve');
+    assert.equal(grade.isCorrect, false);
+    assert.equal(grade.distance, 2);
+    assert.equal(grade.score, 0.71);
+    assert.equal(gradeSpelling('cat', 'cats').score, 0.75);
+});
+
+test('空输入全部记为漏输入，两边都为空时得分为 0', () => {
+    const grade = gradeSpelling('dog', '');
+    assert.equal(grade.distance, 3);
+    assert.equal(grade.score, 0);
+    assert.ok(grade.ops.every(op => op.type === 'delete'));
+    assert.deepEqual(gradeSpelling('', ''), { isCorrect: true, distance: 0, score: 0, ops: [] });
+});
@@ -0,0 +1,70 @@
+import './vscodeStub';
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { SrsManager } from '../srsManager';
+import { SrsState, WordAttempt } from '../types';
+
+function attempt(overrides: Partial<WordAttempt> = {}): WordAttempt {
+    return {
+        word: 'apple',
+        keystrokes: 5,
+        mistakes: 0,
+        firstTryClean: true,
+        durationMs: 2000,
+        firstKeyMs: 300,
+        cpm: 150,
+        letterErrors: [],
+        ...overrides
+    };
+}
+
+function newState(): SrsState {
+    return { word: 'apple', easeFactor: 2.5, interval: 0, repetitions: 0, dueDate: '2026-01-01', lastReviewTime: '' };
+}
+
+test('qualityFromAttempt 按出错次数评分', () => {
+    assert.equal(SrsManager.qualityFromAttempt(attempt()), 4);
+    assert.equal(SrsManager.qualityFromAttempt(attempt({ firstTryClean: false, mistakes: 1 })), 2);
+    assert.equal(SrsManager.qualityFromAttempt(attempt({ firstTryClean: false, mistakes: 3 })), 1);
+});
+
+test('qualityFromAttempt 按使用的提示扣分且不低于 0', () => {
+    assert.equal(SrsManager.qualityFromAttempt(attempt({ hints: ['length'] })), 3);
+    assert.equal(SrsManager.qualityFromAttempt(attempt({ hints: ['nextLetter'] })), 2);
+    assert.equal(SrsManager.qualityFromAttempt(attempt({ hints: ['nextLetter', 'nextLetter', 'phonetics'] })), 0);
+    assert.equal(SrsManager.qualityFromAttempt(attempt({ firstTryClean: false, mistakes: 4, hints: ['firstLetter'] })), 0);
+});
+
+test('schedule 连续答对时按 1 天、6 天、间隔乘难度系数安排复习', () => {
+    const first = SrsManager.schedule(newState(), 4, '2026-03-01');
+    assert.equal(first.repetitions, 1);
+    assert.equal(first.interval, 1);
+    assert.equal(first.dueDate, '2026-03-02');
+
+    const second = SrsManager.schedule(first, 4, '2026-03-02');
+    assert.equal(second.repetitions, 2);
+    assert.equal(second.interval, 6);
+    assert.equal(second.dueDate, '2026-03-08');
+
+    const third = SrsManager.schedule(second, 5, '2026-03-08');
+    assert.equal(third.repetitions, 3);
+    assert.equal(third.interval, Math.round(6 * second.easeFactor));
+    assert.ok(third.easeFactor > second.easeFactor);
+});
+
+test('schedule 答错时从头复习且难度系数不变', () => {
+    const learned: SrsState = { ...newState(), easeFactor: 2.2, interval: 15, repetitions: 4 };
+    const next = SrsManager.schedule(learned, 2, '2026-12-31');
+    assert.equal(next.repetitions, 0);
+    assert.equal(next.interval, 1);
+    assert.equal(next.easeFactor, 2.2);
+    assert.equal(next.dueDate, '2027-01-01');
+});
+
+test('schedule 难度系数不低于 1.3', () => {
+    let state: SrsState = { ...newState(), easeFactor: 1.35 };
+    for (let i = 0; i < 5; i++) {
+        state = SrsManager.schedule(state, 3, '2026-03-01');
+    }
+    assert.equal(state.easeFactor, 1.3);
+});
@@ -0,0 +1,43 @@
+import Module = require('module');
+
+// 单元测试在 VS Code 之外运行：被测模块只在函数中使用 vscode 的接口，加载时用空的 vscode 模块代替
+// 测试文件需要在导入被测模块之前导入本文件
+
+const vscodeStub = {
+    env: { machineId: 'test-machine' }
+};
+
+const loader = Module as unknown as { _load(request: string, ...args: unknown[]): unknown };
+const originalLoad = loader._load;
+loader._load = function (request: string, ...args: unknown[]) {
+    return request === 'vscode' ? vscodeStub : originalLoad.call(this, request, ...args);
+};
+
+// 在内存中保存数据的 globalState（用于测试读写练习数据的函数）
+export class MemoryState {
+    private data: { [key: string]: any };
+
+    constructor(data: { [key: string]: any } = {}) {
+        this.data = { ...data };
+    }
+
+    keys(): readonly string[] {
+        return Object.keys(this.data);
+    }
+
+    get<T>(key: string, defaultValue?: T): T {
+        return key in this.data ? this.data[key] : defaultValue;
+    }
+
+    async update(key: string, value: any): Promise<void> {
+        if (value === undefined) {
+            delete this.data[key];
+        } else {
+            this.data[key] = value;
+        }
+    }
+
+    toObject(): { [key: string]: any } {
+        return { ...this.data };
+    }
+}
@@ -1,17 +1,91 @@
+import { DEFAULT_DAY_ROLLOVER_HOUR, formatLocalDate } from './dateUtils';
+
 // 练习模式类型
-export type PracticeMode = 'normal' | 'dictation';
+export type PracticeMode = 'normal' | 'dictation' | 'mistakes' | 'quiz' | 'reverse';
+
+// 所有练习模式（每日记录、分析等按此顺序遍历）
+export const PRACTICE_MODES: PracticeMode[] = ['normal', 'dictation', 'mistakes', 'quiz', 'reverse'];
+
+// 练习模式显示名称
+export const PRACTICE_MODE_LABELS: { [mode in PracticeMode]: string } = {
+    normal: '正常模式',
+    dictation: '默写模式',
+    mistakes: '错题本',
+    quiz: '选择题模式',
+    reverse: '英译中模式'
+};
+
+// 提示类型：显示下一个字母、显示单词长度、显示首字母、显示音标并朗读
+export type HintType = 'nextLetter' | 'length' | 'firstLetter' | 'phonetics';
+
+// 所有提示类型
+export const HINT_TYPES: HintType[] = ['nextLetter', 'length', 'firstLetter', 'phonetics'];
+
+// 提示显示名称
+export const HINT_LABELS: { [hint in HintType]: string } = {
+    nextLetter: '下一个字母',
+    length: '单词长度',
+    firstLetter: '首字母',
+    phonetics: '音标'
+};
+
+// 音标显示偏好：美式、英式或两者都显示
+export type PhoneticAccent = 'us' | 'uk' | 'both';
+
+// 音标显示偏好名称
+export const PHONETIC_ACCENT_LABELS: { [accent in PhoneticAccent]: string } = {
+    us: '美式',
+    uk: '英式',
+    both: '美式和英式'
+};
+
+// 正常模式完成单词后自动跳转的最长延迟（毫秒）
+export const MAX_AUTO_NEXT_DELAY_MS = 5000;
+
+// 错题本的单词来源范围：当前词书或全部词书
+export type MistakeScope = 'book' | 'all';
+
+// 单词顺序：顺序、按种子乱序（章节固定）、每轮章节练习随机打乱章节内单词
+export type WordOrder = 'sequential' | 'seeded' | 'perPass';
+
+// 单词顺序显示名称
+export const WORD_ORDER_LABELS: { [order in WordOrder]: string } = {
+    sequential: '顺序',
+    seeded: '乱序（固定种子）',
+    perPass: '每轮章节随机'
+};
+
+// 单个词书的设置（未设置的项使用全局设置）
+export interface BookSettings {
+    wordsPerChapter?: number;  // 每章单词数
+    order?: WordOrder;         // 单词顺序（未设置时使用词书列表中的默认顺序）
+    seed?: number;             // 乱序种子（未设置时由词书ID生成）
+    updatedAt?: string;        // 最后修改时间（同步时较新的设置生效）
+}
 
 // 插件设置接口定义
 export interface PluginSettings {
     currentWordbook: string;
-    wordsPerChapter: number;
-    practiceMode: PracticeMode;  // 支持正常模式和默写模式
-    showPhonetics: boolean;
-    autoNextWord: boolean;
+    wordsPerChapter: number;   // 默认每章单词数（词书未单独设置时使用）
+    practiceMode: PracticeMode;  // 支持正常模式、默写模式、错题本、选择题模式和英译中模式
+    showPhonetics: boolean;    // 显示音标
+    phoneticAccent: PhoneticAccent; // 显示美式、英式或两种音标
+    showTranslation: boolean;  // 正常模式显示释义
+    autoNextWord: boolean;     // 正常模式完成单词后自动跳转（关闭时按回车继续）
+    autoNextDelayMs: number;   // 自动跳转前的延迟（毫秒）
     chapterLoop: boolean;  // 单章循环设置
     lastUpdated: string;
     currentChapter: number;
     currentWordIndex: number;
+    mistakeThreshold: number;   // 错题本正确率阈值（%），低于该值的单词进入错题本
+    mistakeScope: MistakeScope; // 错题本单词来源范围
+    userWordbookDir: string;    // 用户词书目录，为空时使用扩展的 globalStorage
+    bookSettings: { [dictId: string]: BookSettings }; // 按词书ID保存的单独设置
+    dayRolloverHour: number;    // 换日时间（本地时间 0-23 点），该时间之前的练习计入前一天
+    lenientDictation: boolean;  // 宽松默写：输入完整单词后按回车提交，按编辑距离评分
+    ignoreDiacritics: boolean;  // 拼写判定忽略重音符号
+    ignorePunctuation: boolean; // 拼写判定忽略标点（连字符、撇号等无需输入）
+    syncEnabled: boolean;       // 通过 Settings Sync 同步练习位置、词书设置和单词统计
 }
 
 // 单词数据接口
@@ -20,6 +94,7 @@ export interface WordData {
     ukphone: string;
     name: string;
     trans: string[];
+    variants?: string[]; // 其他可接受的拼写（英式/美式拼写等，如 colour/color）
 }
 
 // 词书信息接口
@@ -32,6 +107,10 @@ export interface WordBookInfo {
     length?: number;
     url?: string;
     filename?: string;
+    custom?: boolean;  // 是否为用户词书目录中的自定义词书（加载时标记）
+    sourceId?: string; // 内容来源ID：相同来源的词书（如乱序版本）共享单词统计、复习调度和错题，练习位置仍各自独立
+    order?: WordOrder; // 默认单词顺序（未设置时为顺序）
+    seed?: number;     // 默认乱序种子
 }
 
 // 章节信息接口
@@ -42,23 +121,73 @@ export interface ChapterInfo {
     currentChapter: number;
 }
 
-// 单词练习记录接口
+// 单词练习记录接口（按作答统计：单词每出现一次记为一次作答）
 export interface WordRecord {
     word: string;
-    practiceCount: number;  // 练习次数
-    correctCount: number;   // 正确次数
-    errorCount: number;     // 错误次数
+    practiceCount: number;  // 作答次数
+    correctCount: number;   // 首次无误且未使用提示的作答次数
+    errorCount: number;     // 出过错的作答次数（未出错但使用了提示的作答不计为错误）
     lastPracticeTime: string; // 最后练习时间
-    correctRate: number;    // 正确率
+    correctRate: number;    // 正确率（首次无误的作答占比）
+    mistakeCount?: number;   // 累计出错次数（旧记录未设置）
+    keystrokeCount?: number; // 累计按键次数（旧记录未设置）
+    totalDurationMs?: number; // 累计作答用时（毫秒，旧记录未设置）
+    timedCount?: number;      // 记录了用时的作答次数（用于计算平均用时）
+    totalFirstKeyMs?: number; // 累计首键反应时间（毫秒）
+    cpmTotal?: number;        // 计入打字速度的作答的速度之和（键/分，少于两次按键的作答不计入）
+    cpmCount?: number;        // 计入打字速度的作答次数（用于计算平均打字速度）
+    hintedCount?: number;     // 使用了提示的作答次数
+    hintCount?: number;       // 累计使用提示次数
 }
 
-// 章节练习记录接口
+// 单词作答记录：单词每出现一次，从出现到完成作答记为一次作答
+export interface WordAttempt {
+    word: string;
+    keystrokes: number;     // 按键次数（选择题为选择次数）
+    mistakes: number;       // 出错次数
+    firstTryClean: boolean; // 是否一次通过（没有出错）
+    durationMs: number;     // 从单词出现到完成作答的用时（毫秒）
+    firstKeyMs: number;     // 从单词出现到第一次按键的用时（毫秒），犹豫时间
+    cpm: number;            // 打字速度（每分钟按键数，按首次按键到完成作答计算；选择题等无输入时为0）
+    letterErrors: LetterError[]; // 输错的字母
+    score?: number;         // 宽松默写的得分（0-1，按第一次提交的编辑距离计算）
+    variant?: string;       // 输入的变体拼写（输入标准拼写时未设置）
+    hints?: HintType[];     // 使用的提示（按使用顺序，同一提示可使用多次）
+}
+
+// 字母输入错误：期望的字母、实际输入的字母及其在单词中的位置
+export interface LetterError {
+    expected: string;   // 期望的字母（输入超出单词长度时为空）
+    typed: string;      // 实际输入的字母
+    position: number;   // 在单词中的位置（从0开始）
+}
+
+// 间隔重复（SM-2）调度状态
+export interface SrsState {
+    word: string;
+    easeFactor: number;     // 难度系数（EF，最低1.3）
+    interval: number;       // 当前复习间隔（天）
+    repetitions: number;    // 连续答对次数
+    dueDate: string;        // 下次复习日期 YYYY-MM-DD
+    lastReviewTime: string; // 最后复习时间
+}
+
+// 练习会话中的单词条目（复习会话中的单词可能来自不同章节）
+export interface SessionWord {
+    dictId: string;
+    dictName: string;
+    chapterNumber: number;
+    word: WordData;
+}
+
+// 章节练习记录接口（根据单词记录和词书单词列表汇总得出，不单独存储）
 export interface ChapterRecord {
     chapterNumber: number;
-    totalWordsInChapter: number; // 该章节固定单词数（10个）
+    totalWordsInChapter: number; // 该章节单词数
+    wordsPerChapter: number;     // 汇总时使用的每章单词数
     completedWordsCount: number; // 已完成单词数量（有练习记录的单词数）
     chapterCompletionCount: number; // 章节完成次数（所有单词正确次数中的最小值）
-    lastPracticeTime: string;
+    lastPracticeTime: string;    // 章节内单词的最后练习时间（未练习时为空）
     wordRecords: { [word: string]: WordRecord }; // 该章节内单词的记录
 }
 
@@ -74,11 +203,30 @@ export interface DictRecord {
     chapterLoop: boolean;
     lastPracticeTime: string;
     createdTime: string;
+    wordsPerChapter?: number;  // 练习位置所用的每章单词数（旧记录未设置，按默认值处理）
+    passSeed?: number;         // 当前这一轮章节练习的打乱种子（每轮章节随机顺序时使用）
     // 移除 chapterRecords 和 globalStats，这些数据从章节记录中计算得出
 }
 
-// 固定章节单词数量为10
-export const FIXED_WORDS_PER_CHAPTER = 10;
+// 同步的单词作答计数：[作答次数, 正确次数, 错误次数, 使用提示的作答次数, 最后练习时间（秒级时间戳）]
+export type SyncWordCounts = [number, number, number, number, number];
+
+// 一台设备的同步数据（计数只包含在该设备上的作答，合并时按设备累加，两台设备离线练习后也不会重复或丢失）
+export interface SyncDeviceSummary {
+    updatedAt: string;
+    positions: { [mode: string]: { [dictId: string]: [number, number, string] } }; // 练习位置：[单词位置, 最后练习时间（秒级时间戳）, 词典名称]
+    bookSettings: { [dictId: string]: BookSettings };
+    words: { [mode: string]: { [storeId: string]: { [wordKey: string]: SyncWordCounts } } };
+}
+
+// 通过 Settings Sync 同步的练习数据摘要（按设备保存）
+export interface SyncSummary {
+    version: number;
+    devices: { [deviceId: string]: SyncDeviceSummary };
+}
+
+// 默认章节单词数量为10
+export const DEFAULT_WORDS_PER_CHAPTER = 10;
 
 // 每日单词练习记录接口（修改为包含单词详细信息的记录）
 export interface DayWordRecord {
@@ -89,19 +237,30 @@ export interface DayWordRecord {
     dictId: string;         // 词典ID
     dictName: string;       // 词典名称
     chapterNumber: number;  // 章节号
-    practiceTime: string;   // 练习时间
-    isCorrect: boolean;     // 练习结果：true表示正确，false表示错误
+    practiceTime: string;   // 练习时间（完成作答的时间）
+    isCorrect: boolean;     // 练习结果：true表示一次通过且未使用提示，false表示作答中出过错或使用了提示
+    keystrokes?: number;    // 按键次数（旧版按键级记录未设置）
+    mistakes?: number;      // 出错次数
+    firstTryClean?: boolean; // 是否一次通过
+    durationMs?: number;    // 作答用时（毫秒）
+    firstKeyMs?: number;    // 首键反应时间（毫秒）
+    cpm?: number;           // 打字速度（每分钟按键数）
+    letterErrors?: LetterError[]; // 输错的字母
+    score?: number;         // 宽松默写的得分（0-1，1 表示完全正确）
+    variant?: string;       // 输入的变体拼写（输入标准拼写时未设置）
+    hints?: HintType[];     // 使用的提示
+    quality?: number;       // 作答评分（0-5，使用提示会降低评分）
 }
 
 // 每日记录文件接口（修改为使用数组存储单词记录）
 export interface DayRecord {
     date: string; // YYYY-MM-DD格式
-    words: DayWordRecord[]; // 每日练习的单词记录数组，每次练习一个单词都会添加一条记录
+    words: DayWordRecord[]; // 每日练习的单词记录数组，每次作答添加一条记录
 }
 
 // 默认练习记录（只保留基本信息）
-export const createDefaultDictRecord = (dictId: string, dictName: string, totalWords: number, practiceMode: PracticeMode = 'normal'): DictRecord => {
-    const totalChapters = Math.ceil(totalWords / FIXED_WORDS_PER_CHAPTER);
+export const createDefaultDictRecord = (dictId: string, dictName: string, totalWords: number, practiceMode: PracticeMode = 'normal', wordsPerChapter: number = DEFAULT_WORDS_PER_CHAPTER): DictRecord => {
+    const totalChapters = Math.ceil(totalWords / wordsPerChapter);
     return {
         dictId,
         dictName,
@@ -112,21 +271,34 @@ export const createDefaultDictRecord = (dictId: string, dictName: string, totalW
         practiceMode,
         chapterLoop: true,
         lastPracticeTime: new Date().toISOString(),
-        createdTime: new Date().toISOString()
+        createdTime: new Date().toISOString(),
+        wordsPerChapter
     };
 };
 
 // 默认设置
 export const defaultSettings: PluginSettings = {
     currentWordbook: 'hongbaoshu-2026',
-    wordsPerChapter: FIXED_WORDS_PER_CHAPTER,
+    wordsPerChapter: DEFAULT_WORDS_PER_CHAPTER,
     practiceMode: 'normal',  // 默认使用正常模式
     showPhonetics: true,
-    autoNextWord: false,
+    phoneticAccent: 'both',
+    showTranslation: true,
+    autoNextWord: true,
+    autoNextDelayMs: 0,
     chapterLoop: true,  // 默认开启单章循环
-    lastUpdated: new Date().toISOString().split('T')[0],
+    lastUpdated: formatLocalDate(new Date()),
     currentChapter: 1,
-    currentWordIndex: 0
+    currentWordIndex: 0,
+    mistakeThreshold: 80,
+    mistakeScope: 'book',
+    userWordbookDir: '',
+    bookSettings: {},
+    dayRolloverHour: DEFAULT_DAY_ROLLOVER_HOUR,
+    lenientDictation: false,
+    ignoreDiacritics: false,
+    ignorePunctuation: false,
+    syncEnabled: false
 };
 
 // 默认词汇数据
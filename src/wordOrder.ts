@@ -0,0 +1,39 @@
+import { WordData } from './types';
+
+// 根据字符串生成种子（FNV-1a 哈希），词书未设置种子时使用词书ID生成
+export function seedFromString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// 生成新的随机种子
+export function createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+}
+
+// 可复现的伪随机数生成器（mulberry32），相同种子产生相同序列
+function createRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+}
+
+// 按种子打乱单词顺序（Fisher-Yates），不修改原数组
+export function shuffleWords(words: WordData[], seed: number): WordData[] {
+    const random = createRandom(seed);
+    const shuffled = [...words];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+}
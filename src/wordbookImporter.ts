@@ -0,0 +1,348 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WordBookInfo, WordData } from './types';
+import { getStoredWordBooks, saveUserWordBook } from './wordbooks';
+import { PracticeWebviewProvider } from './practiceProvider';
+
+// 支持的导入格式
+export type ImportFormat = 'table' | 'anki' | 'list';
+
+// 表格列映射（列序号从0开始，未设置表示没有该列）
+export interface ColumnMapping {
+    word: number;
+    phonetic?: number;
+    translation?: number;
+    variants?: number;  // 变体拼写（英式/美式拼写等，多个用逗号、分号或斜杠分隔）
+}
+
+// 解析分隔符文本（支持双引号包裹的字段及字段内的换行）
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') {
+                i++;
+            }
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows
+        .map(cells => cells.map(cell => cell.trim()))
+        .filter(cells => cells.some(cell => cell !== ''));
+}
+
+// 根据首行内容猜测分隔符
+export function detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') || '';
+    const candidates = ['\t', ',', ';'];
+    let best = ',';
+    let bestCount = 0;
+    for (const candidate of candidates) {
+        const count = firstLine.split(candidate).length - 1;
+        if (count > bestCount) {
+            best = candidate;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+// 去除 Anki 导出字段中的 HTML 标记
+function stripHtml(value: string): string {
+    return value
+        .replace(/<br\s*\/?>/gi, '; ')
+        .replace(/<\/(div|p|li)>/gi, '; ')
+        .replace(/<[^>]+>/g, '')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&')
+        .replace(/(;\s*)+$/, '')
+        .trim();
+}
+
+// 解析 Anki “Notes in Plain Text” 导出文件（第一行数据之前以 # 开头的行为文件头）
+// guid、笔记类型、牌组和标签所在的列（文件头中的“* column”，从1开始）不是笔记字段，解析时去除
+export function parseAnkiExport(text: string): string[][] {
+    const separators: { [name: string]: string } = {
+        tab: '\t',
+        comma: ',',
+        semicolon: ';',
+        space: ' ',
+        pipe: '|',
+        colon: ':'
+    };
+
+    let delimiter = '\t';
+    let html = true;
+    const metadataColumns = new Set<number>();
+    const bodyLines: string[] = [];
+    for (const line of text.split(/\r?\n/)) {
+        if (bodyLines.length === 0 && line.startsWith('#')) {
+            const header = line.match(/^#([^:]+):(.*)$/);
+            const name = header ? header[1].trim().toLowerCase() : '';
+            const value = header ? header[2].trim() : '';
+            if (name === 'separator') {
+                delimiter = separators[value.toLowerCase()] || value || delimiter;
+            } else if (name === 'html') {
+                html = value.toLowerCase() === 'true';
+            } else if (/^(guid|notetype|deck|tags) column$/.test(name)) {
+                const column = parseInt(value, 10);
+                if (column > 0) {
+                    metadataColumns.add(column - 1);
+                }
+            }
+            continue;
+        }
+        bodyLines.push(line);
+    }
+
+    const rows = parseDelimited(bodyLines.join('\n'), delimiter)
+        .map(cells => cells.filter((_, index) => !metadataColumns.has(index)));
+    return html ? rows.map(cells => cells.map(stripHtml)) : rows;
+}
+
+// 解析单词列表（每行一个单词，忽略空行和 # 注释）
+export function parseWordList(text: string): WordData[] {
+    const words = text.split(/\r?\n/)
+        .map(line => line.trim())
+        .filter(line => line !== '' && !line.startsWith('#'))
+        .map(name => ({ name, usphone: '', ukphone: '', trans: [] as string[] }));
+    return dedupeWords(words);
+}
+
+// 将释义文本拆分为释义数组
+function splitTranslation(value: string): string[] {
+    return value
+        .split(/[;；\n]|<br\s*\/?>/i)
+        .map(part => part.trim())
+        .filter(part => part !== '');
+}
+
+// 将变体拼写文本拆分为数组（去除与单词本身相同的拼写）
+function splitVariants(value: string, name: string): string[] {
+    return value
+        .split(/[,;，；/|]/)
+        .map(part => part.trim())
+        .filter((part, index, parts) => part !== '' && part.toLowerCase() !== name.toLowerCase() && parts.indexOf(part) === index);
+}
+
+// 按列映射将表格行转换为词书数据
+export function rowsToWordData(rows: string[][], mapping: ColumnMapping): WordData[] {
+    const words: WordData[] = [];
+    for (const cells of rows) {
+        const name = (cells[mapping.word] || '').trim();
+        if (!name) {
+            continue;
+        }
+        const phonetic = mapping.phonetic !== undefined ? (cells[mapping.phonetic] || '').trim() : '';
+        const translation = mapping.translation !== undefined ? (cells[mapping.translation] || '') : '';
+        const variants = mapping.variants !== undefined ? splitVariants(cells[mapping.variants] || '', name) : [];
+        words.push({
+            name,
+            usphone: phonetic,
+            ukphone: phonetic,
+            trans: splitTranslation(translation),
+            ...(variants.length > 0 ? { variants } : {})
+        });
+    }
+    return dedupeWords(words);
+}
+
+// 去除重复单词（保留第一次出现的条目）
+function dedupeWords(words: WordData[]): WordData[] {
+    const seen = new Set<string>();
+    return words.filter(word => {
+        const key = word.name.toLowerCase();
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+}
+
+// 根据文件名生成不与现有词书冲突的词书ID
+function createBookId(filename: string, existingIds: Set<string>): string {
+    const base = filename
+        .replace(/\.[^.]+$/, '')
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'wordbook';
+    let id = `custom-${base}`;
+    let suffix = 2;
+    while (existingIds.has(id)) {
+        id = `custom-${base}-${suffix++}`;
+    }
+    return id;
+}
+
+// 让用户选择表格列的映射关系
+async function pickColumnMapping(rows: string[][], hasHeader: boolean): Promise<ColumnMapping | undefined> {
+    const columnCount = Math.max(...rows.map(cells => cells.length));
+    const header = hasHeader ? rows[0] : [];
+    const sample = rows[hasHeader ? 1 : 0] || [];
+    const columns = Array.from({ length: columnCount }, (_, index) => ({
+        label: `第 ${index + 1} 列${header[index] ? `：${header[index]}` : ''}`,
+        description: sample[index] ? `示例：${sample[index].slice(0, 40)}` : '',
+        index
+    }));
+    const noneItem = { label: '（无此列）', description: '', index: -1 };
+
+    const wordColumn = await vscode.window.showQuickPick(columns, { placeHolder: '选择单词所在的列' });
+    if (!wordColumn) {
+        return undefined;
+    }
+    const phoneticColumn = await vscode.window.showQuickPick([noneItem, ...columns], { placeHolder: '选择音标所在的列' });
+    if (!phoneticColumn) {
+        return undefined;
+    }
+    const translationColumn = await vscode.window.showQuickPick([noneItem, ...columns], { placeHolder: '选择释义所在的列' });
+    if (!translationColumn) {
+        return undefined;
+    }
+    const variantsColumn = await vscode.window.showQuickPick([noneItem, ...columns], { placeHolder: '选择变体拼写（如英式/美式拼写）所在的列' });
+    if (!variantsColumn) {
+        return undefined;
+    }
+
+    return {
+        word: wordColumn.index,
+        phonetic: phoneticColumn.index >= 0 ? phoneticColumn.index : undefined,
+        translation: translationColumn.index >= 0 ? translationColumn.index : undefined,
+        variants: variantsColumn.index >= 0 ? variantsColumn.index : undefined
+    };
+}
+
+// 导入词书命令：将 CSV/TSV、Anki 导出或单词列表转换为词书并保存到用户词书目录
+export async function importWordBook(context: vscode.ExtensionContext, practiceProvider: PracticeWebviewProvider): Promise<void> {
+    const files = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: '导入词书',
+        filters: { '词表文件': ['csv', 'tsv', 'txt'] }
+    });
+    if (!files || files.length === 0) {
+        return;
+    }
+
+    try {
+        const fileUri = files[0];
+        const filename = path.basename(fileUri.fsPath);
+        const text = Buffer.from(await vscode.workspace.fs.readFile(fileUri)).toString('utf8').replace(/^\uFEFF/, '');
+
+        const isTable = /\.(csv|tsv)$/i.test(filename);
+        const formatItems: { label: string; format: ImportFormat }[] = [
+            { label: 'CSV/TSV 表格', format: 'table' },
+            { label: 'Anki 导出（Notes in Plain Text）', format: 'anki' },
+            { label: '单词列表（每行一个单词）', format: 'list' }
+        ];
+        if (!isTable && /^#[^:\r\n]+:/.test(text)) {
+            formatItems.unshift(formatItems.splice(1, 1)[0]);
+        } else if (!isTable) {
+            formatItems.unshift(formatItems.splice(2, 1)[0]);
+        }
+        const formatItem = await vscode.window.showQuickPick(formatItems, { placeHolder: '选择文件格式' });
+        if (!formatItem) {
+            return;
+        }
+
+        let words: WordData[];
+        if (formatItem.format === 'list') {
+            words = parseWordList(text);
+        } else {
+            let rows = formatItem.format === 'anki'
+                ? parseAnkiExport(text)
+                : parseDelimited(text, detectDelimiter(text));
+            if (rows.length === 0) {
+                vscode.window.showErrorMessage('文件中没有可导入的内容');
+                return;
+            }
+
+            let hasHeader = false;
+            if (formatItem.format === 'table') {
+                const headerChoice = await vscode.window.showQuickPick(['首行是表头', '首行是数据'], {
+                    placeHolder: `首行内容：${rows[0].join(' | ').slice(0, 80)}`
+                });
+                if (!headerChoice) {
+                    return;
+                }
+                hasHeader = headerChoice === '首行是表头';
+            }
+
+            const mapping = await pickColumnMapping(rows, hasHeader);
+            if (!mapping) {
+                return;
+            }
+            if (hasHeader) {
+                rows = rows.slice(1);
+            }
+            words = rowsToWordData(rows, mapping);
+        }
+
+        if (words.length === 0) {
+            vscode.window.showErrorMessage('没有解析到任何单词，请检查文件格式和列映射');
+            return;
+        }
+
+        const bookName = await vscode.window.showInputBox({
+            prompt: `共解析到 ${words.length} 个单词，请输入词书名称`,
+            value: filename.replace(/\.[^.]+$/, '')
+        });
+        if (!bookName) {
+            return;
+        }
+
+        const existingIds = new Set((await getStoredWordBooks(context)).map(book => book.id));
+        const book: WordBookInfo = {
+            id: createBookId(filename, existingIds),
+            name: bookName,
+            description: `从 ${filename} 导入`,
+            category: '自定义',
+            tags: ['导入']
+        };
+        await saveUserWordBook(context, book, words);
+
+        const choice = await vscode.window.showInformationMessage(
+            `词书“${bookName}”导入成功，共 ${words.length} 个单词`,
+            '切换到该词书'
+        );
+        if (choice === '切换到该词书') {
+            await practiceProvider.switchStoredWordBook(context, book.id);
+        }
+    } catch (error) {
+        console.error('导入词书失败:', error);
+        vscode.window.showErrorMessage(`导入词书失败: ${error}`);
+    }
+}
@@ -1,23 +1,147 @@
 import * as vscode from 'vscode';
-import { WordBookInfo, WordData, defaultWordsData } from './types';
+import { PluginSettings, WordBookInfo, WordData, WordOrder, defaultWordsData } from './types';
+import { getSettings } from './settings';
+import { seedFromString, shuffleWords } from './wordOrder';
+
+// 用户词书目录中的词书列表文件名
+export const USER_WORDBOOK_INDEX = 'wordbooks.json';
+
+// 缓存的词书列表和已加载的单词（练习中每次作答都会查找词书，避免重复扫描目录和解析词书文件）
+// 用户词书目录中的文件变化、目录设置变化或用户手动刷新时清除
+let cachedWordBooks: WordBookInfo[] | undefined;
+const cachedWordData = new Map<string, WordData[]>();
+let cacheGeneration = 0;
+let userWordBookWatcher: vscode.FileSystemWatcher | undefined;
+
+// 清除缓存的词书列表和单词
+export function invalidateWordBookCache(): void {
+    cachedWordBooks = undefined;
+    cachedWordData.clear();
+    cacheGeneration++;
+}
+
+// 监听用户词书目录中的文件变化（用户词书目录设置变化后需要重新调用）
+export async function watchUserWordBookDir(context: vscode.ExtensionContext): Promise<vscode.Disposable> {
+    userWordBookWatcher?.dispose();
+    const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(await getUserWordBookDir(context), '*.json'));
+    watcher.onDidCreate(invalidateWordBookCache);
+    watcher.onDidChange(invalidateWordBookCache);
+    watcher.onDidDelete(invalidateWordBookCache);
+    userWordBookWatcher = watcher;
+    return new vscode.Disposable(() => {
+        if (userWordBookWatcher === watcher) {
+            userWordBookWatcher = undefined;
+        }
+        watcher.dispose();
+    });
+}
+
+// 获取用户词书目录（默认位于扩展的 globalStorage 中，可通过设置覆盖）
+export async function getUserWordBookDir(context: vscode.ExtensionContext): Promise<vscode.Uri> {
+    const settings = await getSettings(context);
+    const customDir = (settings.userWordbookDir || '').trim();
+    return customDir
+        ? vscode.Uri.file(customDir)
+        : vscode.Uri.joinPath(context.globalStorageUri, 'wordbooks');
+}
+
+// 获取词书文件的位置（自定义词书位于用户词书目录，内置词书位于扩展目录）
+export async function getWordBookUri(context: vscode.ExtensionContext, book: WordBookInfo): Promise<vscode.Uri | undefined> {
+    const filename = book.url || book.filename;
+    if (!filename) {
+        return undefined;
+    }
+    if (book.custom) {
+        return vscode.Uri.joinPath(await getUserWordBookDir(context), filename);
+    }
+    return vscode.Uri.joinPath(context.extensionUri, 'data', 'dicts', filename);
+}
+
+// 读取内置词书列表
+async function getBundledWordBooks(context: vscode.ExtensionContext): Promise<WordBookInfo[]> {
+    // 从 data/config/wordbooks.json 读取词书列表
+    const wordBooksListPath = vscode.Uri.joinPath(context.extensionUri, 'data', 'config', 'wordbooks.json');
+    const fileData = await vscode.workspace.fs.readFile(wordBooksListPath);
+    const content = Buffer.from(fileData).toString('utf8');
+    return JSON.parse(content);
+}
+
+// 扫描用户词书目录：读取目录中的 wordbooks.json，并为未登记的词书文件生成默认信息
+async function getUserWordBooks(context: vscode.ExtensionContext): Promise<WordBookInfo[]> {
+    const userDir = await getUserWordBookDir(context);
+    let entries: [string, vscode.FileType][];
+    try {
+        entries = await vscode.workspace.fs.readDirectory(userDir);
+    } catch {
+        // 目录不存在时没有自定义词书
+        return [];
+    }
+
+    let listedBooks: WordBookInfo[] = [];
+    if (entries.some(([name]) => name === USER_WORDBOOK_INDEX)) {
+        try {
+            const indexData = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(userDir, USER_WORDBOOK_INDEX));
+            listedBooks = JSON.parse(Buffer.from(indexData).toString('utf8'));
+        } catch (error) {
+            console.error('读取用户词书列表失败:', error);
+        }
+    }
+
+    const userBooks: WordBookInfo[] = listedBooks.map(book => ({ ...book, custom: true }));
+    const listedFiles = new Set(userBooks.map(book => book.url || book.filename));
+    for (const [name, type] of entries) {
+        if (type === vscode.FileType.File && name.endsWith('.json') && name !== USER_WORDBOOK_INDEX && !listedFiles.has(name)) {
+            const id = name.replace(/\.json$/, '');
+            userBooks.push({ id, name: id, url: name, custom: true });
+        }
+    }
+
+    // 补全未声明单词数量的词书
+    for (const book of userBooks) {
+        const filename = book.url || book.filename;
+        if (book.length === undefined && filename) {
+            try {
+                const bookData = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(userDir, filename));
+                book.length = (JSON.parse(Buffer.from(bookData).toString('utf8')) as WordData[]).length;
+            } catch {
+                // 文件无法读取时保持未知数量
+            }
+        }
+    }
+    return userBooks;
+}
 
 // 词书管理相关函数
 export async function getStoredWordBooks(context: vscode.ExtensionContext): Promise<WordBookInfo[]> {
+    if (cachedWordBooks) {
+        return [...cachedWordBooks];
+    }
+    const generation = cacheGeneration;
     try {
-        // 从 data/wordbooks.json 读取词书列表
-        const wordBooksListPath = vscode.Uri.joinPath(context.extensionUri, 'data', 'config', 'wordbooks.json');
-        const fileData = await vscode.workspace.fs.readFile(wordBooksListPath);
-        const content = Buffer.from(fileData).toString('utf8');
-        const wordBooksList = JSON.parse(content);
+        let wordBooksList: WordBookInfo[] = [];
+        try {
+            wordBooksList = await getBundledWordBooks(context);
+        } catch (error) {
+            console.error('读取内置词书列表失败:', error);
+        }
+
+        // 合并用户词书（与内置词书ID冲突的自定义词书将被忽略）
+        const bundledIds = new Set(wordBooksList.map(book => book.id));
+        for (const book of await getUserWordBooks(context)) {
+            if (bundledIds.has(book.id)) {
+                console.log('自定义词书ID与内置词书冲突，已忽略:', book.id);
+                continue;
+            }
+            wordBooksList.push(book);
+        }
         
         // 验证每个词书文件是否存在
         const validWordBooks = [];
         for (const book of wordBooksList) {
             try {
                 // 使用url字段作为文件名
-                const filename = book.url || book.filename;
-                if (filename) {
-                    const bookPath = vscode.Uri.joinPath(context.extensionUri, 'data', 'dicts', filename);
+                const bookPath = await getWordBookUri(context, book);
+                if (bookPath) {
                     await vscode.workspace.fs.stat(bookPath); // 检查文件是否存在
                     validWordBooks.push(book);
                 } else {
@@ -28,13 +152,72 @@ export async function getStoredWordBooks(context: vscode.ExtensionContext): Prom
             }
         }
         
-        return validWordBooks;
+        // 读取过程中缓存被清除时不保存可能过期的结果
+        if (generation === cacheGeneration) {
+            cachedWordBooks = validWordBooks;
+        }
+        return [...validWordBooks];
     } catch (error) {
         console.error('读取词书列表失败:', error);
         return [];
     }
 }
 
+// 获取词书的记录存储ID（声明了 sourceId 的词书与同源词书共享单词统计、复习调度和错题）
+export function getRecordStoreId(book: WordBookInfo): string {
+    return book.sourceId || book.id;
+}
+
+// 根据词书ID查找记录存储ID（找不到词书时使用词书ID本身）
+export async function resolveRecordStoreId(context: vscode.ExtensionContext, dictId: string): Promise<string> {
+    const wordBooks = await getStoredWordBooks(context);
+    const book = wordBooks.find(b => b.id === dictId);
+    return book ? getRecordStoreId(book) : dictId;
+}
+
+// 获取共享同一记录存储ID的全部词书ID
+export async function getRecordStoreDictIds(context: vscode.ExtensionContext, storeId: string): Promise<string[]> {
+    const wordBooks = await getStoredWordBooks(context);
+    return wordBooks.filter(book => getRecordStoreId(book) === storeId).map(book => book.id);
+}
+
+// 将词书写入用户词书目录，并在目录的 wordbooks.json 中登记（同ID的条目会被替换）
+export async function saveUserWordBook(context: vscode.ExtensionContext, book: WordBookInfo, words: WordData[]): Promise<void> {
+    const userDir = await getUserWordBookDir(context);
+    await vscode.workspace.fs.createDirectory(userDir);
+
+    const filename = book.url || `${book.id}.json`;
+    await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(userDir, filename),
+        Buffer.from(JSON.stringify(words, null, 4), 'utf8')
+    );
+
+    const indexUri = vscode.Uri.joinPath(userDir, USER_WORDBOOK_INDEX);
+    let listedBooks: WordBookInfo[] = [];
+    try {
+        listedBooks = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(indexUri)).toString('utf8'));
+    } catch {
+        // 列表文件不存在时新建
+    }
+
+    // custom 标记只在加载时添加，不写入文件
+    const { custom, ...entry } = book;
+    const updatedBooks = listedBooks.filter(listed => listed.id !== book.id);
+    updatedBooks.push({ ...entry, url: filename, length: words.length });
+    await vscode.workspace.fs.writeFile(indexUri, Buffer.from(JSON.stringify(updatedBooks, null, 2), 'utf8'));
+    invalidateWordBookCache();
+}
+
+// 获取词书的单词顺序和乱序种子（词书单独设置优先，其次使用词书列表中的默认值）
+export function getBookWordOrder(settings: PluginSettings, book: WordBookInfo): { order: WordOrder; seed: number } {
+    const bookSettings = settings.bookSettings[book.id] || {};
+    return {
+        order: bookSettings.order || book.order || 'sequential',
+        seed: bookSettings.seed ?? book.seed ?? seedFromString(book.id)
+    };
+}
+
+// 加载词书单词（按种子乱序的词书返回打乱后的顺序，相同种子总是得到相同的章节）
 export async function loadWordBookData(
     context: vscode.ExtensionContext, 
     bookId: string
@@ -44,13 +227,25 @@ export async function loadWordBookData(
         const targetBook = wordBooksList.find(book => book.id === bookId);
         
         if (targetBook) {
-            const filename = targetBook.url || targetBook.filename;
-            if (filename) {
-                const bookPath = vscode.Uri.joinPath(context.extensionUri, 'data', 'dicts', filename);
+            // 单词顺序设置不同时分别缓存
+            const { order, seed } = getBookWordOrder(await getSettings(context), targetBook);
+            const cacheKey = `${targetBook.id}|${order}|${seed}`;
+            const cached = cachedWordData.get(cacheKey);
+            if (cached) {
+                return cached;
+            }
+
+            const bookPath = await getWordBookUri(context, targetBook);
+            if (bookPath) {
+                const generation = cacheGeneration;
                 const bookData = await vscode.workspace.fs.readFile(bookPath);
                 const bookContent = Buffer.from(bookData).toString('utf8');
                 const wordsData = JSON.parse(bookContent) as WordData[];
-                return wordsData;
+                const orderedWords = order === 'seeded' ? shuffleWords(wordsData, seed) : wordsData;
+                if (generation === cacheGeneration) {
+                    cachedWordData.set(cacheKey, orderedWords);
+                }
+                return orderedWords;
             }
         }
         